@@ -8,39 +8,210 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Loader, useProgress } from '@react-three/drei';
-import { GameStatus, NoteData } from './types';
-import { DEMO_CHART, generateDemoChart, MUSIC_TRACKS } from './constants';
+import { GameStatus, NoteData, CurriculumPack, QuestionSet, MusicTrack, ProfileStore, QuestionResult, DifficultyPreset, DifficultyParams, HandTips, HeadPoint, SessionRecording, HandCalibration, TrackingPreset } from './types';
+import { DEMO_CHART, generateDemoChart, createLayoutSeed, generateBenchmarkChart, BENCHMARK_INSTRUCTION, MUSIC_TRACKS, BUILTIN_CURRICULUM, DEFAULT_DIRECTION_TOLERANCE, DEFAULT_CALIBRATION, DEFAULT_TRACKING_PRESET, MIN_DIRECTION_TOLERANCE, MAX_DIRECTION_TOLERANCE, LESSON_QUESTION_COUNT } from './constants';
 import { useMediaPipe } from './hooks/useMediaPipe';
+import { usePointerInput } from './hooks/usePointerInput';
+import { useGamepadInput } from './hooks/useGamepadInput';
+import { useXRSession } from './hooks/useXRSession';
+import { useReplayInput } from './hooks/useReplayInput';
+import { useUiFonts } from './hooks/useUiFonts';
+import { loadCurriculumFile, createDraftPack } from './services/curriculum';
+import { listUserTracks, addUserTrack, removeUserTrack } from './services/trackLibrary';
+import { NoteEvent, ScoreState, createScoreState, applyNoteEvent, getAnswerOutcome, isGameOver } from './services/gameEngine';
+import { loadProfileStore, saveProfileStore, getActiveProfile, updateProfile, addProfile, removeProfile, recordLesson } from './services/learnerProfile';
+import { selectReviewQuestions, countDueQuestions } from './services/spacedRepetition';
+import { LessonResults, recordNoteHit, recordNoteMiss, fillSentenceBlank } from './services/lessonResults';
+import { createRecording, addRecordedFrame, snapshotChart, loadRecordingFile, serializeRecording } from './services/sessionRecording';
+import { downloadFile, toFileSlug } from './services/download';
+import { AdaptiveState, createAdaptiveState, updateAdaptiveState, getDifficultyParams, getChartDifficulty } from './services/difficulty';
 import GameScene from './components/GameScene';
 import WebcamPreview from './components/WebcamPreview';
-import { Play, RefreshCw, VideoOff, Hand, BookOpen, GraduationCap, Volume2, Ear, Music, Settings } from 'lucide-react';
+import CurriculumPanel from './components/CurriculumPanel';
+import LessonEditor from './components/LessonEditor';
+import MusicLibrary from './components/MusicLibrary';
+import LessonReview from './components/LessonReview';
+import ProfileSelector from './components/ProfileSelector';
+import TeacherDashboard from './components/TeacherDashboard';
+import CalibrationWizard from './components/CalibrationWizard';
+import XRControllers from './components/XRControllers';
+import StatsOverlay from './components/StatsOverlay';
+import GestureControls from './components/GestureControls';
+import { Play, RefreshCw, VideoOff, Hand, BookOpen, GraduationCap, Volume2, Ear, Settings, MoveUpRight, RotateCcw, Gauge, Camera, MousePointer2, Gamepad2, Glasses, Film, Save, X, Crosshair, Activity, Pause, Bomb, BrickWall, ListOrdered } from 'lucide-react';
 
 type GameMode = 'VISUAL' | 'LISTENING';
+type InputMode = 'CAMERA' | 'POINTER' | 'GAMEPAD' | 'VR';
+
+const DIFFICULTY_OPTIONS: { preset: DifficultyPreset; label: string }[] = [
+  { preset: 'EASY', label: 'Easy' },
+  { preset: 'NORMAL', label: 'Normal' },
+  { preset: 'HARD', label: 'Hard' },
+  { preset: 'ADAPTIVE', label: 'Adaptive' }
+];
+
+const RESUME_COUNTDOWN = 3;  // Seconds counted down before a paused lesson carries on
+const AUTO_PAUSE_DELAY = 3;  // Seconds without any hand in view before a camera lesson pauses itself
+
+const TRACKING_OPTIONS: { preset: TrackingPreset; label: string; hint: string }[] = [
+  { preset: 'STEADY', label: 'Steady', hint: "Smoothest sabers, for shaky or dim webcams. Slightly more lag." },
+  { preset: 'BALANCED', label: 'Balanced', hint: "Smooth when you hold still, quick when you swing." },
+  { preset: 'RESPONSIVE', label: 'Responsive', hint: "Least lag, for fast players with a good webcam. Sabers may jitter." }
+];
 
 const App: React.FC = () => {
   const [gameStatus, setGameStatus] = useState<GameStatus>(GameStatus.LOADING);
-  const [score, setScore] = useState(0);
-  const [combo, setCombo] = useState(0);
-  const [multiplier, setMultiplier] = useState(1);
-  const [health, setHealth] = useState(100);
+  const [scoreState, setScoreState] = useState<ScoreState>(createScoreState);
+  const { score, combo, health } = scoreState;
   const [instruction, setInstruction] = useState<string>("Get Ready...");
   
   // Menu State
   const [gameMode, setGameMode] = useState<GameMode>('VISUAL');
-  const [selectedTrackIndex, setSelectedTrackIndex] = useState(0);
+  const [inputMode, setInputMode] = useState<InputMode>('CAMERA');
+  const [directionalMode, setDirectionalMode] = useState(false);
+  const [directionTolerance, setDirectionTolerance] = useState(DEFAULT_DIRECTION_TOLERANCE);
+  const [bombsMode, setBombsMode] = useState(false);
+  const [wallsMode, setWallsMode] = useState(false);
+  const [sentenceMode, setSentenceMode] = useState(false);
+  // Sentence building: the words cut into the current sentence's blank so far
+  const [sentenceFill, setSentenceFill] = useState<{ instruction: string; words: (string | null)[] } | null>(null);
+  const [difficultyPreset, setDifficultyPreset] = useState<DifficultyPreset>('NORMAL');
+  const [trackingPreset, setTrackingPreset] = useState<TrackingPreset>(DEFAULT_TRACKING_PRESET);
+  const [showStats, setShowStats] = useState(false);
+  const [isBenchmark, setIsBenchmark] = useState(false);
+  const [resumeCountdown, setResumeCountdown] = useState<number | null>(null);
+  const [adaptiveLevel, setAdaptiveLevel] = useState<number | null>(null);
+  const [selectedTrackId, setSelectedTrackId] = useState(MUSIC_TRACKS[0].id);
+  const [userTracks, setUserTracks] = useState<MusicTrack[]>([]);
+  const [isAnalysingTrack, setIsAnalysingTrack] = useState(false);
+  const [trackError, setTrackError] = useState<string | null>(null);
   const [chart, setChart] = useState<NoteData[]>(DEMO_CHART);
+  const [layoutSeed, setLayoutSeed] = useState<number | undefined>(undefined); // Adaptive block layout, saved with recordings
+  const [curriculum, setCurriculum] = useState<CurriculumPack>(BUILTIN_CURRICULUM);
+  const [curriculumErrors, setCurriculumErrors] = useState<string[]>([]);
+  const [editorDraft, setEditorDraft] = useState<CurriculumPack | null>(null);
+  const [profileStore, setProfileStore] = useState<ProfileStore>(loadProfileStore);
+  const profile = getActiveProfile(profileStore);
+
+  // Every profile change is persisted straight away; there is no server to sync with
+  const changeProfiles = useCallback((update: (store: ProfileStore) => ProfileStore) => {
+      setProfileStore(store => {
+          const next = update(store);
+          saveProfileStore(next);
+          return next;
+      });
+  }, []);
+
+  // Per-run question bookkeeping (refs: updated from the render loop's callbacks)
+  const lessonQuestionsRef = useRef<Map<string, QuestionSet>>(new Map());
+  const lessonResultsRef = useRef<LessonResults>({});
+  const runActiveRef = useRef(false);
+  const scoreStateRef = useRef<ScoreState>(createScoreState());
+  const [lessonResults, setLessonResults] = useState<QuestionResult[]>([]);
 
-  const audioRef = useRef<HTMLAudioElement>(new Audio(MUSIC_TRACKS[0].url));
+  // Session recording (camera runs) and replay of a recorded run instead of live input
+  const recorderRef = useRef<SessionRecording | null>(null);
+  const [lastRecording, setLastRecording] = useState<SessionRecording | null>(null);
+  const [replay, setReplay] = useState<SessionRecording | null>(null);
+  const [replayErrors, setReplayErrors] = useState<string[]>([]);
+
+  const audioRef = useRef<HTMLAudioElement>(new Audio()); // Source set with the selected track below
   const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Adaptive difficulty: the controller's state, and the live parameters the scene spawns with
+  const adaptiveStateRef = useRef<AdaptiveState>(createAdaptiveState());
+  const difficultyRef = useRef<DifficultyParams>(getDifficultyParams('NORMAL'));
   
-  const { isCameraReady, handPositionsRef, lastResultsRef, error: cameraError } = useMediaPipe(videoRef);
+  // Every camera sample is stamped with the song time while a recording is running
+  const onHandTipsRef = useRef<((tips: HandTips, capturedAt: number, head?: HeadPoint | null) => void) | null>((tips: HandTips, capturedAt: number, head?: HeadPoint | null) => {
+      const audio = audioRef.current;
+      // Detection finishes a little after the frame was captured; stamp the song time it was captured at
+      const songTime = audio ? audio.currentTime - (performance.now() - capturedAt) / 1000 : 0;
+      if (recorderRef.current && audio && !audio.paused) addRecordedFrame(recorderRef.current, Math.max(0, songTime), tips, head);
+  });
+
+  // The active student's reach; read by the tracking loop every frame
+  const calibrationRef = useRef<HandCalibration>(profile.calibration || DEFAULT_CALIBRATION);
+  useEffect(() => {
+      calibrationRef.current = profile.calibration || DEFAULT_CALIBRATION;
+  }, [profile.calibration]);
+
+  // Hand filtering preset, also read by the tracking loop every frame
+  const trackingRef = useRef<TrackingPreset>(trackingPreset);
+  useEffect(() => {
+      trackingRef.current = trackingPreset;
+  }, [trackingPreset]);
+
+  // Walls need the head as well as the hands: only the camera can see it
+  const headTrackingRef = useRef(false);
+  useEffect(() => {
+      headTrackingRef.current = wallsMode && inputMode === 'CAMERA';
+  }, [wallsMode, inputMode]);
+
+  const { isCameraReady, handPositionsRef, lastResultsRef, statsRef: detectionStatsRef, error: cameraError } = useMediaPipe(videoRef, { onHandTipsRef, calibrationRef, trackingRef, headTrackingRef });
+  const { handPositionsRef: pointerPositionsRef } = usePointerInput(inputMode === 'POINTER');
+  const { handPositionsRef: gamepadPositionsRef, gamepadName } = useGamepadInput(inputMode === 'GAMEPAD');
+  const { isSupported: isVRSupported, session: xrSession, enterVR, exitVR, handPositionsRef: xrPositionsRef } = useXRSession();
+
+  // Without a camera, mouse, touch, keyboard or controllers stand in for the hands
+  const { handPositionsRef: replayPositionsRef } = useReplayInput(replay, audioRef);
+  const isInputReady = !!replay || inputMode !== 'CAMERA' || isCameraReady;
+  const activeHandsRef = replay ? replayPositionsRef : {
+      CAMERA: handPositionsRef,
+      POINTER: pointerPositionsRef,
+      GAMEPAD: gamepadPositionsRef,
+      VR: xrPositionsRef
+  }[inputMode];
   
+  const fonts = useUiFonts();
+
+  const tracks = [...MUSIC_TRACKS, ...userTracks];
+  const selectedTrack = tracks.find(t => t.id === selectedTrackId) || MUSIC_TRACKS[0];
+
   // Update Audio Track when selection changes
   useEffect(() => {
-      audioRef.current.src = MUSIC_TRACKS[selectedTrackIndex].url;
-      audioRef.current.volume = 0.4; // Lower music volume so speech is clearer
-      audioRef.current.load();
-  }, [selectedTrackIndex]);
+      const audio = audioRef.current;
+      // Built-in songs are self-hosted, with their original source as a backup
+      audio.onerror = selectedTrack.fallbackUrl ? () => {
+          audio.onerror = null;
+          audio.src = selectedTrack.fallbackUrl!;
+          audio.load();
+      } : null;
+      audio.src = selectedTrack.url;
+      audio.volume = 0.4; // Lower music volume so speech is clearer
+      audio.load();
+  }, [selectedTrack.url, selectedTrack.fallbackUrl]);
+
+  // Restore the classroom's own songs
+  useEffect(() => {
+      listUserTracks()
+          .then(setUserTracks)
+          .catch(e => console.warn("Music library unavailable", e));
+  }, []);
+
+  const addTrack = async (file: File) => {
+      setIsAnalysingTrack(true);
+      setTrackError(null);
+      try {
+          const track = await addUserTrack(file);
+          setUserTracks(list => [...list, track]);
+          setSelectedTrackId(track.id);
+      } catch (e: any) {
+          console.error("Track analysis failed", e);
+          setTrackError(`Could not use "${file.name}": ${e.message || "unsupported audio file"}`);
+      } finally {
+          setIsAnalysingTrack(false);
+      }
+  };
+
+  const removeTrack = async (id: string) => {
+      try {
+          await removeUserTrack(id);
+          setUserTracks(list => list.filter(t => t.id !== id));
+          if (selectedTrackId === id) setSelectedTrackId(MUSIC_TRACKS[0].id);
+      } catch (e) {
+          console.error("Could not remove track", e);
+      }
+  };
 
   // Speech Synthesis for Listening Challenges
   const speakInstruction = useCallback((text: string) => {
@@ -60,8 +231,11 @@ const App: React.FC = () => {
       window.speechSynthesis.speak(utterance);
   }, []);
 
+  // Only new instructions are spoken: resuming from a pause mustn't repeat the current one
+  const spokenInstructionRef = useRef<string | null>(null);
   useEffect(() => {
-      if (gameStatus === GameStatus.PLAYING && instruction) {
+      if ((gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.PREVIEW) && instruction && instruction !== spokenInstructionRef.current) {
+          spokenInstructionRef.current = instruction;
           // In Listening Mode, we MUST speak it.
           // In Visual Mode, we speak it as reinforcement.
           
@@ -71,76 +245,225 @@ const App: React.FC = () => {
       }
   }, [instruction, gameStatus, speakInstruction]);
 
+  // Curriculum Import
+  const importCurriculum = useCallback(async (file: File) => {
+      const result = await loadCurriculumFile(file);
+      if (result.pack) {
+          setCurriculum(result.pack);
+          setEditorDraft(null);
+          setCurriculumErrors([]);
+      } else {
+          setCurriculumErrors(result.errors);
+      }
+  }, []);
+
+  const handleMenuDrop = (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      const file = e.dataTransfer.files?.[0];
+      if (file) importCurriculum(file);
+  };
+
+  // Built-in songs only know their length once the audio's metadata has loaded
+  const getSongDuration = () => Number.isFinite(audioRef.current.duration) ? audioRef.current.duration : selectedTrack.duration;
+
+  // Charts follow the tempo (and detected beats) of whichever song is playing
+  const getChartOptions = () => ({
+      bpm: selectedTrack.bpm,
+      offset: selectedTrack.offset || 0,
+      beats: selectedTrack.beats,
+      duration: getSongDuration(),
+      difficulty: getChartDifficulty(difficultyPreset),
+      directional: directionalMode,
+      bombs: bombsMode,
+      walls: wallsMode && inputMode === 'CAMERA',
+      sentences: sentenceMode
+  });
+
+  // Lesson Editor
+  const openEditor = () => {
+      // Never edit the built-in lesson in place; fork it so exports get their own id
+      const isBuiltin = curriculum.id === BUILTIN_CURRICULUM.id;
+      setEditorDraft(draft => draft || createDraftPack(curriculum, isBuiltin ? `lesson-${Date.now().toString(36)}` : undefined));
+      setGameStatus(GameStatus.EDITOR);
+  };
+
+  // Previews play a chart without scoring or recording it
+  const playPreview = async (previewChart: NoteData[], firstInstruction: string) => {
+      setChart(previewChart);
+      setLayoutSeed(undefined);
+      setInstruction(firstInstruction);
+      setSentenceFill(null);
+      try {
+          audioRef.current.currentTime = 0;
+          audioRef.current.volume = 0.3;
+          await audioRef.current.play();
+          setGameStatus(GameStatus.PREVIEW);
+      } catch (e) {
+          console.error("Audio play failed", e);
+      }
+  };
+
+  const previewQuestion = (question: QuestionSet) => playPreview(generateDemoChart([question], getChartOptions()), "Get Ready...");
+
+  // Hundreds of blocks at once, with the frame rate on screen, to check a device copes before a class relies on it
+  const runBenchmark = () => {
+      setIsBenchmark(true);
+      playPreview(generateBenchmarkChart(), BENCHMARK_INSTRUCTION);
+  };
+
+  const applyEditedLesson = (pack: CurriculumPack) => {
+      setCurriculum(pack);
+      setCurriculumErrors([]);
+      setEditorDraft(pack);
+      setGameStatus(GameStatus.IDLE);
+  };
+
+  const saveCalibration = (calibration: HandCalibration) => {
+      changeProfiles(store => updateProfile(store, profile.id, p => ({ ...p, calibration })));
+      setGameStatus(GameStatus.IDLE);
+  };
+
+  // Session Replays
+  const loadReplay = async (file: File) => {
+      const result = await loadRecordingFile(file);
+      if (!result.recording) {
+          setReplayErrors(result.errors);
+          return;
+      }
+      const recording = result.recording;
+      const warnings: string[] = [];
+      if (tracks.some(t => t.id === recording.trackId)) {
+          setSelectedTrackId(recording.trackId);
+      } else {
+          warnings.push("The song from this recording isn't in your music library, so the timing won't match the music you hear.");
+      }
+      setDirectionalMode(recording.directional);
+      setDirectionTolerance(recording.directionTolerance);
+      setDifficultyPreset(recording.difficulty);
+      setReplay(recording);
+      setReplayErrors(warnings);
+  };
+
+  const closeReplay = () => {
+      setReplay(null);
+      setReplayErrors([]);
+  };
+
+  const saveRecording = (recording: SessionRecording) => {
+      const date = new Date(recording.recordedAt).toISOString().slice(0, 10);
+      downloadFile(`recording-${toFileSlug(recording.studentName || 'student')}-${date}.json`, serializeRecording(recording));
+  };
+
+  // Feed one answered question into the adaptive controller
+  const adaptDifficulty = (correct: boolean, combo: number) => {
+      if (difficultyPreset !== 'ADAPTIVE') return;
+      adaptiveStateRef.current = updateAdaptiveState(adaptiveStateRef.current, correct, combo);
+      difficultyRef.current = getDifficultyParams('ADAPTIVE', adaptiveStateRef.current);
+      setAdaptiveLevel(adaptiveStateRef.current.level);
+  };
+
+  // Score, combo and health all follow the engine's rules
+  const applyScoreEvent = (event: NoteEvent) => {
+      const previous = scoreStateRef.current;
+      const next = applyNoteEvent(previous, event);
+      scoreStateRef.current = next;
+      setScoreState(next);
+
+      const outcome = getAnswerOutcome(event);
+      if (outcome !== null) adaptDifficulty(outcome, next.combo);
+
+      if (isGameOver(next) && !isGameOver(previous)) {
+          setTimeout(() => endGame(false), 0);
+      }
+  };
+
   // Game Logic Handlers
   const handleNoteHit = useCallback((note: NoteData, goodCut: boolean) => {
      if (navigator.vibrate) {
          navigator.vibrate(goodCut ? [50, 50, 50] : 200); // Stronger vibration for tactile feel
      }
 
-     if (goodCut && note.isCorrect) {
-         // Correct Answer Hit!
-         setCombo(c => {
-           const newCombo = c + 1;
-           if (newCombo > 10) setMultiplier(4);
-           else if (newCombo > 5) setMultiplier(2);
-           else setMultiplier(1);
-           return newCombo;
-         });
-         setScore(s => s + (100 * multiplier));
-         setHealth(h => Math.min(100, h + 5));
-         
-         // Positive reinforcement speech occasionally
-         if (Math.random() > 0.7) {
-            const praise = ["Correct!", "Nice!", "Good job!", "Awesome!"];
-            const word = praise[Math.floor(Math.random() * praise.length)];
-            const u = new SpeechSynthesisUtterance(word);
-            u.rate = 1.5; 
-            u.volume = 0.6;
-            window.speechSynthesis.speak(u);
-         }
-
-     } else {
-         // Wrong Answer Hit!
-         setCombo(0);
-         setMultiplier(1);
-         setHealth(h => {
-             const newHealth = h - 10;
-             if (newHealth <= 0) {
-                 setTimeout(() => endGame(false), 0);
-                 return 0;
-             }
-             return newHealth;
+     // Each right word of a sentence goes into the blank, wherever the order broke
+     if (note.sequenceLength && note.isCorrect) {
+         setSentenceFill(fill => {
+             const words = fill && fill.instruction === note.instruction ? [...fill.words] : Array(note.sequenceLength).fill(null);
+             words[note.sequenceIndex!] = note.text;
+             return { instruction: note.instruction, words };
          });
      }
-  }, [multiplier]);
+
+     // Previews are for looking, not scoring
+     if (gameStatus === GameStatus.PREVIEW) return;
+
+     recordNoteHit(lessonResultsRef.current, note, lessonQuestionsRef.current.get(note.questionId));
+     applyScoreEvent({ type: 'hit', note, goodCut });
+
+     // Positive reinforcement speech occasionally
+     if (goodCut && note.isCorrect && Math.random() > 0.7) {
+        const praise = ["Correct!", "Nice!", "Good job!", "Awesome!"];
+        const word = praise[Math.floor(Math.random() * praise.length)];
+        const u = new SpeechSynthesisUtterance(word);
+        u.rate = 1.5; 
+        u.volume = 0.6;
+        window.speechSynthesis.speak(u);
+     }
+  }, [gameStatus, difficultyPreset]);
 
   const handleNoteMiss = useCallback((note: NoteData) => {
-      // If we missed a note...
-      if (note.isCorrect) {
-          // ...and it was the CORRECT answer, we are penalized.
-          setCombo(0);
-          setMultiplier(1);
-          setHealth(h => {
-              const newHealth = h - 15;
-              if (newHealth <= 0) {
-                 setTimeout(() => endGame(false), 0);
-                 return 0;
-              }
-              return newHealth;
-          });
-      }
-  }, []);
+      if (gameStatus === GameStatus.PREVIEW) return;
 
-  const startGame = async () => {
-    if (!isCameraReady) return;
+      recordNoteMiss(lessonResultsRef.current, note, lessonQuestionsRef.current.get(note.questionId));
+      applyScoreEvent({ type: 'miss', note });
+  }, [gameStatus, difficultyPreset]);
+
+  // `retryQuestions` replays a fixed set (e.g. the ones just failed) instead of the review schedule
+  const startGame = async (retryQuestions?: QuestionSet[]) => {
+    if (!isInputReady) return;
+
+    // Fit the camera to this student's reach before their first camera lesson
+    if (inputMode === 'CAMERA' && !replay && !profile.calibration) {
+        setGameStatus(GameStatus.CALIBRATION);
+        return;
+    }
+
+    // The headset has to be requested straight from the click; without it, carry on with a gamepad
+    if (inputMode === 'VR' && !replay && !xrSession) {
+        enterVR().then(ok => { if (!ok) setInputMode('GAMEPAD'); });
+    }
     
-    // Regenerate chart to be fresh
-    setChart(generateDemoChart());
-    setScore(0);
-    setCombo(0);
-    setMultiplier(1);
-    setHealth(100);
+    // Pick what this student is due to review, then regenerate chart to be fresh (a replay brings its own)
+    const questions = replay ? replay.questions : retryQuestions || selectReviewQuestions(curriculum.items, profile.items, LESSON_QUESTION_COUNT);
+    const newChart = replay ? snapshotChart(replay.chart) : generateDemoChart(questions, getChartOptions());
+    const newLayoutSeed = replay ? replay.layoutSeed : createLayoutSeed();
+    lessonQuestionsRef.current = new Map(questions.map(q => [q.id!, q]));
+    lessonResultsRef.current = {};
+    runActiveRef.current = true;
+    adaptiveStateRef.current = createAdaptiveState();
+    difficultyRef.current = getDifficultyParams(difficultyPreset, adaptiveStateRef.current);
+    setAdaptiveLevel(difficultyPreset === 'ADAPTIVE' ? adaptiveStateRef.current.level : null);
+    setChart(newChart);
+    setLayoutSeed(newLayoutSeed);
+    setLastRecording(null);
+    recorderRef.current = replay || inputMode !== 'CAMERA' ? null : createRecording({
+        studentName: profile.name,
+        trackId: selectedTrack.id,
+        bpm: selectedTrack.bpm,
+        beatOffset: selectedTrack.offset || 0,
+        songDuration: getSongDuration(),
+        directional: directionalMode,
+        directionTolerance,
+        difficulty: difficultyPreset,
+        calibration: calibrationRef.current,
+        tracking: trackingPreset,
+        layoutSeed: newLayoutSeed,
+        questions,
+        chart: newChart
+    });
+    scoreStateRef.current = createScoreState();
+    setScoreState(scoreStateRef.current);
+    spokenInstructionRef.current = null;
     setInstruction("Get Ready...");
+    setSentenceFill(null);
 
     try {
       if (audioRef.current) {
@@ -159,33 +482,163 @@ const App: React.FC = () => {
     }
   };
 
+  // The scene runs on the song clock, so stopping the song freezes the blocks where they are
+  const pauseGame = () => {
+      setResumeCountdown(null);
+      if (gameStatus !== GameStatus.PLAYING) return;
+      audioRef.current.pause();
+      window.speechSynthesis.pause();
+      setGameStatus(GameStatus.PAUSED);
+  };
+
+  // Give the student a moment to get their hands back up before the blocks move again
+  const resumeGame = () => setResumeCountdown(RESUME_COUNTDOWN);
+
+  useEffect(() => {
+      if (resumeCountdown === null) return;
+      if (resumeCountdown > 0) {
+          const timer = window.setTimeout(() => setResumeCountdown(resumeCountdown - 1), 1000);
+          return () => window.clearTimeout(timer);
+      }
+      setResumeCountdown(null);
+      audioRef.current.play()
+          .then(() => {
+              window.speechSynthesis.resume();
+              setGameStatus(GameStatus.PLAYING);
+          })
+          .catch(e => console.error("Audio play failed", e));
+  }, [resumeCountdown]);
+
+  // Abandoning a lesson records nothing for the student
+  const stopLesson = () => {
+      runActiveRef.current = false;
+      recorderRef.current = null;
+      setResumeCountdown(null);
+      audioRef.current.pause();
+      // A paused synthesiser stays paused after cancel(), which would silence the next lesson
+      window.speechSynthesis.cancel();
+      window.speechSynthesis.resume();
+  };
+
+  const quitLesson = () => {
+      stopLesson();
+      exitVR();
+      setGameStatus(GameStatus.IDLE);
+  };
+
+  const restartLesson = () => {
+      const questions = Array.from(lessonQuestionsRef.current.values());
+      stopLesson();
+      startGame(questions);
+  };
+
+  // Auto-pause: the tab is hidden or loses focus, or (camera) both hands have left the frame for a while
+  useEffect(() => {
+      if (gameStatus !== GameStatus.PLAYING) return;
+
+      const onVisibilityChange = () => { if (document.hidden) pauseGame(); };
+      // Entering a headset can blur the page, so VR relies on visibility alone
+      const onBlur = () => { if (!xrSession) pauseGame(); };
+      const onKeyDown = (e: KeyboardEvent) => { if (e.code === 'Escape') pauseGame(); };
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      window.addEventListener('blur', onBlur);
+      window.addEventListener('keydown', onKeyDown);
+
+      let handsGoneSince: number | null = null;
+      const handCheck = window.setInterval(() => {
+          if (inputMode !== 'CAMERA' || replay) return;
+          const hands = handPositionsRef.current;
+          if (hands.left || hands.right) {
+              handsGoneSince = null;
+          } else if (handsGoneSince === null) {
+              handsGoneSince = performance.now();
+          } else if (performance.now() - handsGoneSince > AUTO_PAUSE_DELAY * 1000) {
+              pauseGame();
+          }
+      }, 250);
+
+      return () => {
+          document.removeEventListener('visibilitychange', onVisibilityChange);
+          window.removeEventListener('blur', onBlur);
+          window.removeEventListener('keydown', onKeyDown);
+          window.clearInterval(handCheck);
+      };
+  }, [gameStatus, inputMode, replay, xrSession]);
+
+  // Escape also resumes
+  useEffect(() => {
+      if (gameStatus !== GameStatus.PAUSED || resumeCountdown !== null) return;
+      const onKeyDown = (e: KeyboardEvent) => { if (e.code === 'Escape') resumeGame(); };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, [gameStatus, resumeCountdown]);
+
   const endGame = (victory: boolean) => {
-      setGameStatus(victory ? GameStatus.VICTORY : GameStatus.GAME_OVER);
+      // A finished preview just drops back to wherever it was started from
+      setGameStatus(gameStatus === GameStatus.PREVIEW ? (isBenchmark ? GameStatus.IDLE : GameStatus.EDITOR) : victory ? GameStatus.VICTORY : GameStatus.GAME_OVER);
+      setIsBenchmark(false);
+
+      // endGame can fire more than once per run (song end + health); only record once
+      if (gameStatus !== GameStatus.PREVIEW && runActiveRef.current) {
+          runActiveRef.current = false;
+          const results = Array.from(lessonQuestionsRef.current.keys())
+              .map(id => lessonResultsRef.current[id])
+              .filter(Boolean);
+          setLessonResults(results);
+          const lesson = {
+              results,
+              totalQuestions: lessonQuestionsRef.current.size,
+              score: scoreStateRef.current.score,
+              maxCombo: scoreStateRef.current.maxCombo,
+              victory,
+              curriculum
+          };
+          // Watching someone's replay must not count as a lesson for the active student
+          if (!replay) changeProfiles(store => updateProfile(store, profile.id, p => recordLesson(p, lesson)));
+      }
+      if (recorderRef.current) {
+          setLastRecording(recorderRef.current);
+          recorderRef.current = null;
+      }
       if (audioRef.current) {
           audioRef.current.pause();
       }
+      // Results are shown on the page, so take the headset out of VR
+      exitVR();
       window.speechSynthesis.cancel();
   };
 
   useEffect(() => {
-      if (gameStatus === GameStatus.LOADING && isCameraReady) {
+      if (gameStatus === GameStatus.LOADING && isInputReady) {
           setGameStatus(GameStatus.IDLE);
       }
-  }, [isCameraReady, gameStatus]);
+  }, [isInputReady, gameStatus]);
+
+  // No camera (blocked, missing or failed to load): fall back rather than leave the student stuck
+  useEffect(() => {
+      if (cameraError) setInputMode('POINTER');
+  }, [cameraError]);
+
+  // Anything not answered cleanly is worth another go
+  const failedQuestions = lessonResults
+      .filter(r => r.outcome !== 'correct')
+      .map(r => lessonQuestionsRef.current.get(r.questionId))
+      .filter((q): q is QuestionSet => !!q);
 
   // Determine what text to show in the HUD box
   const getDisplayedInstruction = () => {
-      if (gameStatus !== GameStatus.PLAYING) return "";
+      if (gameStatus !== GameStatus.PLAYING && gameStatus !== GameStatus.PREVIEW) return "";
       if (instruction === "Get Ready...") return instruction;
       
       if (gameMode === 'LISTENING') {
           return "??? (Listen!)";
       }
+      if (sentenceFill && sentenceFill.instruction === instruction) return fillSentenceBlank(instruction, sentenceFill.words);
       return instruction;
   };
 
   return (
-    <div className="relative w-full h-screen bg-slate-900 overflow-hidden font-sans select-none">
+    <div className={`relative w-full h-screen bg-slate-900 overflow-hidden font-sans select-none ${inputMode === 'POINTER' ? 'touch-none' : ''}`}>
       {/* Hidden Video for Processing */}
       <video 
         ref={videoRef} 
@@ -202,22 +655,46 @@ const App: React.FC = () => {
              <GameScene 
                 gameStatus={gameStatus}
                 audioRef={audioRef}
-                handPositionsRef={handPositionsRef}
+                handPositionsRef={activeHandsRef}
+                interpolateHands={!!replay || inputMode === 'CAMERA'}
                 chart={chart}
+                layoutSeed={layoutSeed}
+                bpm={selectedTrack.bpm}
+                beatOffset={selectedTrack.offset || 0}
+                songDuration={selectedTrack.duration}
+                directional={directionalMode}
+                directionTolerance={directionTolerance}
+                adaptive={difficultyPreset === 'ADAPTIVE' && gameStatus === GameStatus.PLAYING}
+                difficultyRef={difficultyRef}
                 onNoteHit={handleNoteHit}
                 onNoteMiss={handleNoteMiss}
                 onSongEnd={() => endGame(true)}
                 setInstruction={setInstruction}
+                fonts={fonts}
              />
           )}
+          <XRControllers session={xrSession} handPositionsRef={xrPositionsRef} instruction={instruction} font={fonts.bold} />
       </Canvas>
 
       {/* Webcam Mini-Map Preview */}
       <WebcamPreview 
           videoRef={videoRef} 
           resultsRef={lastResultsRef} 
-          isCameraReady={isCameraReady} 
+          isCameraReady={isCameraReady && inputMode === 'CAMERA'} 
       />
+      {((showStats && inputMode === 'CAMERA' && isCameraReady) || isBenchmark) && (
+          <StatsOverlay statsRef={inputMode === 'CAMERA' && isCameraReady ? detectionStatsRef : undefined} />
+      )}
+
+      {/* Hand-driven menus and pausing, for students standing back from the screen */}
+      {inputMode === 'CAMERA' && isCameraReady && !xrSession && (
+          <GestureControls
+              resultsRef={lastResultsRef}
+              calibrationRef={calibrationRef}
+              showCursor={[GameStatus.IDLE, GameStatus.PAUSED, GameStatus.GAME_OVER, GameStatus.VICTORY].includes(gameStatus)}
+              onPause={gameStatus === GameStatus.PLAYING ? pauseGame : undefined}
+          />
+      )}
 
       {/* UI Overlay */}
       <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-6 z-10">
@@ -236,7 +713,7 @@ const App: React.FC = () => {
              </div>
 
              {/* ACTIVE INSTRUCTION */}
-             {gameStatus === GameStatus.PLAYING && (
+             {(gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.PREVIEW) && (
                  <div className="absolute top-8 left-1/2 transform -translate-x-1/2 text-center w-full max-w-2xl">
                       <div className={`border-2 px-8 py-6 rounded-xl backdrop-blur-md shadow-[0_0_30px_rgba(0,0,0,0.5)] transition-all duration-500 ${gameMode === 'LISTENING' ? 'bg-purple-900/80 border-purple-400' : 'bg-blue-900/80 border-blue-400'}`}>
                           <div className="flex items-center justify-center gap-2 mb-2">
@@ -261,6 +738,11 @@ const App: React.FC = () => {
                      <p className={`text-2xl font-bold ${combo > 5 ? 'text-yellow-400 scale-110' : 'text-gray-300'} transition-all`}>
                          {combo}x COMBO
                      </p>
+                     {adaptiveLevel !== null && (
+                         <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                             <Gauge size={12} /> Level {Math.round(adaptiveLevel * 10)}/10
+                         </p>
+                     )}
                  </div>
              </div>
           </div>
@@ -272,12 +754,19 @@ const App: React.FC = () => {
                   <div className="bg-slate-900/90 p-10 rounded-2xl flex flex-col items-center border border-blue-900/50 backdrop-blur-md shadow-2xl">
                       <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-blue-500 mb-6"></div>
                       <h2 className="text-2xl text-white font-bold mb-2">Loading Classroom</h2>
-                      <p className="text-blue-300">{!isCameraReady ? "Initializing Camera..." : "Preparing Lesson..."}</p>
+                      <p className="text-blue-300">{!isInputReady ? "Initializing Camera..." : "Preparing Lesson..."}</p>
+                      <button onClick={() => setInputMode('POINTER')} className="mt-6 text-sm text-gray-400 hover:text-white underline transition-colors">
+                          No camera? Play with mouse, touch or keyboard
+                      </button>
                   </div>
               )}
 
               {gameStatus === GameStatus.IDLE && (
-                  <div className="bg-slate-900/95 p-8 md:p-12 rounded-3xl text-center border-2 border-blue-500/30 backdrop-blur-xl max-w-4xl w-full shadow-2xl overflow-y-auto max-h-screen">
+                  <div 
+                      className="bg-slate-900/95 p-8 md:p-12 rounded-3xl text-center border-2 border-blue-500/30 backdrop-blur-xl max-w-4xl w-full shadow-2xl overflow-y-auto max-h-screen"
+                      onDragOver={e => e.preventDefault()}
+                      onDrop={handleMenuDrop}
+                  >
                       <div className="mb-4 flex justify-center">
                          <GraduationCap className="w-20 h-20 text-blue-400" />
                       </div>
@@ -285,11 +774,90 @@ const App: React.FC = () => {
                           CONJUGATION <span className="text-blue-500">DOJO</span>
                       </h1>
                       <p className="text-xl text-blue-200 mb-8 italic">"Master the language with your bare hands!"</p>
+
+                      <ProfileSelector 
+                          profiles={profileStore.profiles}
+                          activeProfileId={profile.id}
+                          onSelect={id => changeProfiles(store => ({ ...store, activeProfileId: id }))}
+                          onAdd={name => changeProfiles(store => addProfile(store, name))}
+                          onOpenDashboard={() => setGameStatus(GameStatus.DASHBOARD)}
+                      />
                       
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-left bg-white/5 p-6 rounded-xl mb-8 border border-white/10">
                           <div className="space-y-4">
                               <h3 className="text-white font-bold border-b border-white/10 pb-2 flex items-center gap-2"><Settings className="w-4 h-4"/> Lesson Settings</h3>
                               
+                              {/* Input */}
+                              <div>
+                                  <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Controls</label>
+                                  <div className="flex gap-2">
+                                      <button 
+                                        onClick={() => setInputMode('CAMERA')}
+                                        disabled={!!cameraError}
+                                        className={`flex-1 py-3 px-4 rounded-lg border transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed ${inputMode === 'CAMERA' ? 'bg-blue-600 border-blue-400 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                      >
+                                          <Camera size={18} /> Camera
+                                      </button>
+                                      <button 
+                                        onClick={() => setInputMode('POINTER')}
+                                        className={`flex-1 py-3 px-4 rounded-lg border transition-all flex items-center justify-center gap-2 ${inputMode === 'POINTER' ? 'bg-blue-600 border-blue-400 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                      >
+                                          <MousePointer2 size={18} /> Mouse / Keys
+                                      </button>
+                                  </div>
+                                  <div className="flex gap-2 mt-2">
+                                      <button 
+                                        onClick={() => setInputMode('GAMEPAD')}
+                                        className={`flex-1 py-3 px-4 rounded-lg border transition-all flex items-center justify-center gap-2 ${inputMode === 'GAMEPAD' ? 'bg-blue-600 border-blue-400 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                      >
+                                          <Gamepad2 size={18} /> Gamepad
+                                      </button>
+                                      <button 
+                                        onClick={() => setInputMode('VR')}
+                                        disabled={!isVRSupported}
+                                        title={isVRSupported ? "Play in a VR headset with motion controllers" : "VR needs a WebXR headset and browser"}
+                                        className={`flex-1 py-3 px-4 rounded-lg border transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed ${inputMode === 'VR' ? 'bg-blue-600 border-blue-400 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                      >
+                                          <Glasses size={18} /> VR
+                                      </button>
+                                  </div>
+                                  {cameraError && <p className="text-xs text-red-400 mt-2 flex items-center gap-1"><VideoOff size={12} /> {cameraError}</p>}
+                                  {inputMode === 'CAMERA' && isCameraReady && (
+                                      <button onClick={() => setGameStatus(GameStatus.CALIBRATION)} className="text-xs text-blue-300 hover:text-white mt-2 flex items-center gap-1 transition-colors">
+                                          <Crosshair size={12} /> {profile.calibration ? "Recalibrate reach" : "Calibrate reach (asked before the first lesson)"}
+                                      </button>
+                                  )}
+                                  {inputMode === 'CAMERA' && isCameraReady && (
+                                      <p className="text-xs text-gray-400 mt-2 flex items-center gap-1"><Hand size={12} /> Point at a button and hold still, or pinch, to press it from where you stand. Pinch with both hands to pause a lesson.</p>
+                                  )}
+                                  {inputMode === 'CAMERA' && (
+                                      <div className="mt-3">
+                                          <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Hand Tracking</label>
+                                          <div className="grid grid-cols-3 gap-2">
+                                              {TRACKING_OPTIONS.map(({ preset, label }) => (
+                                                  <button
+                                                    key={preset}
+                                                    onClick={() => setTrackingPreset(preset)}
+                                                    className={`py-2 rounded-lg border text-sm transition-all ${trackingPreset === preset ? 'bg-blue-600 border-blue-400 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                                  >
+                                                      {label}
+                                                  </button>
+                                              ))}
+                                          </div>
+                                          <p className="text-xs text-gray-500 mt-2">{TRACKING_OPTIONS.find(o => o.preset === trackingPreset)!.hint}</p>
+                                          <button onClick={() => setShowStats(!showStats)} className="text-xs text-blue-300 hover:text-white mt-2 flex items-center gap-1 transition-colors">
+                                              <Activity size={12} /> {showStats ? "Hide tracking stats" : "Show tracking stats"}
+                                          </button>
+                                      </div>
+                                  )}
+                                  {inputMode === 'GAMEPAD' && (
+                                      <p className="text-xs text-gray-400 mt-2">{gamepadName ? `Using ${gamepadName}` : "Connect a controller and press any button."} Each stick moves one saber; flick it to slash.</p>
+                                  )}
+                                  {inputMode === 'VR' && (
+                                      <p className="text-xs text-gray-400 mt-2">Put on your headset after pressing Begin Lesson. Swing the motion controllers to slash.</p>
+                                  )}
+                              </div>
+
                               {/* Mode Selection */}
                               <div>
                                   <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Learning Mode</label>
@@ -309,22 +877,114 @@ const App: React.FC = () => {
                                   </div>
                               </div>
 
-                              {/* Music Selection */}
+                              {/* Difficulty */}
                               <div>
-                                  <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Background Music</label>
-                                  <div className="space-y-2">
-                                      {MUSIC_TRACKS.map((track, idx) => (
+                                  <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Difficulty</label>
+                                  <div className="grid grid-cols-4 gap-2">
+                                      {DIFFICULTY_OPTIONS.map(({ preset, label }) => (
                                           <button
-                                              key={track.name}
-                                              onClick={() => setSelectedTrackIndex(idx)}
-                                              className={`w-full text-left px-4 py-3 rounded-lg flex items-center justify-between border transition-all ${selectedTrackIndex === idx ? 'bg-slate-700 border-blue-400 text-white' : 'bg-slate-800/50 border-transparent text-gray-400 hover:bg-slate-700'}`}
+                                            key={preset}
+                                            onClick={() => setDifficultyPreset(preset)}
+                                            className={`py-2 rounded-lg border text-sm transition-all ${difficultyPreset === preset ? 'bg-blue-600 border-blue-400 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
                                           >
-                                              <span className="flex items-center gap-2"><Music size={16} /> {track.name}</span>
-                                              {selectedTrackIndex === idx && <div className="w-2 h-2 bg-green-400 rounded-full"></div>}
+                                              {label}
                                           </button>
                                       ))}
                                   </div>
+                                  {difficultyPreset === 'ADAPTIVE' && (
+                                      <p className="text-xs text-gray-500 mt-2">Speeds up and adds choices while you're on a roll; eases off when you struggle.</p>
+                                  )}
+                              </div>
+
+                              {/* Swing Direction */}
+                              <div>
+                                  <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Swing Direction</label>
+                                  <button 
+                                    onClick={() => setDirectionalMode(d => !d)}
+                                    className={`w-full py-3 px-4 rounded-lg border transition-all flex items-center justify-between gap-2 ${directionalMode ? 'bg-slate-700 border-blue-400 text-white' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                  >
+                                      <span className="flex items-center gap-2"><MoveUpRight size={18} /> Follow the Arrows</span>
+                                      <span className="text-xs font-bold">{directionalMode ? "ON" : "OFF"}</span>
+                                  </button>
+                                  {directionalMode && (
+                                      <div className="mt-2 px-1">
+                                          <div className="flex justify-between text-xs text-gray-400 mb-1">
+                                              <span>Angle Tolerance</span>
+                                              <span>±{directionTolerance}°</span>
+                                          </div>
+                                          <input 
+                                              type="range"
+                                              min={MIN_DIRECTION_TOLERANCE}
+                                              max={MAX_DIRECTION_TOLERANCE}
+                                              step={5}
+                                              value={directionTolerance}
+                                              onChange={e => setDirectionTolerance(Number(e.target.value))}
+                                              className="w-full accent-blue-500"
+                                          />
+                                      </div>
+                                  )}
                               </div>
+
+                              {/* Sentence Building */}
+                              <div>
+                                  <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Sentence Building</label>
+                                  <button 
+                                    onClick={() => setSentenceMode(m => !m)}
+                                    className={`w-full py-3 px-4 rounded-lg border transition-all flex items-center justify-between gap-2 ${sentenceMode ? 'bg-slate-700 border-blue-400 text-white' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                  >
+                                      <span className="flex items-center gap-2"><ListOrdered size={18} /> Word by Word</span>
+                                      <span className="text-xs font-bold">{sentenceMode ? "ON" : "OFF"}</span>
+                                  </button>
+                                  {sentenceMode && (
+                                      <p className="text-xs text-gray-500 mt-2">Questions with a word sequence are built one word at a time. Getting part of the order right still earns part of the credit.</p>
+                                  )}
+                              </div>
+
+                              {/* Obstacles */}
+                              <div>
+                                  <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Obstacles</label>
+                                  <div className="space-y-2">
+                                      <button 
+                                        onClick={() => setBombsMode(b => !b)}
+                                        className={`w-full py-3 px-4 rounded-lg border transition-all flex items-center justify-between gap-2 ${bombsMode ? 'bg-slate-700 border-blue-400 text-white' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                      >
+                                          <span className="flex items-center gap-2"><Bomb size={18} /> Misspelling Bombs</span>
+                                          <span className="text-xs font-bold">{bombsMode ? "ON" : "OFF"}</span>
+                                      </button>
+                                      <button 
+                                        onClick={() => setWallsMode(w => !w)}
+                                        disabled={inputMode !== 'CAMERA'}
+                                        className={`w-full py-3 px-4 rounded-lg border transition-all flex items-center justify-between gap-2 disabled:opacity-40 disabled:cursor-not-allowed ${wallsMode && inputMode === 'CAMERA' ? 'bg-slate-700 border-blue-400 text-white' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                      >
+                                          <span className="flex items-center gap-2"><BrickWall size={18} /> Dodge the Walls</span>
+                                          <span className="text-xs font-bold">{wallsMode && inputMode === 'CAMERA' ? "ON" : "OFF"}</span>
+                                      </button>
+                                  </div>
+                                  {inputMode !== 'CAMERA' && (
+                                      <p className="text-xs text-gray-500 mt-2">Walls need the camera to see you lean and duck.</p>
+                                  )}
+                              </div>
+
+                              {/* Music Selection */}
+                              <MusicLibrary 
+                                  tracks={tracks}
+                                  selectedTrackId={selectedTrack.id}
+                                  isAnalysing={isAnalysingTrack}
+                                  error={trackError}
+                                  onSelect={setSelectedTrackId}
+                                  onAdd={addTrack}
+                                  onRemove={removeTrack}
+                              />
+
+                              {/* Curriculum Selection */}
+                              <CurriculumPanel 
+                                  pack={curriculum}
+                                  errors={curriculumErrors}
+                                  onFile={importCurriculum}
+                                  onReset={() => { setCurriculum(BUILTIN_CURRICULUM); setCurriculumErrors([]); setEditorDraft(null); }}
+                                  onEdit={openEditor}
+                                  dueCount={countDueQuestions(curriculum.items, profile.items)}
+                              />
                           </div>
 
                           <div className="space-y-4 border-l border-white/10 pl-0 md:pl-6">
@@ -346,27 +1006,159 @@ const App: React.FC = () => {
                                       <span className="bg-red-500/20 text-red-300 font-bold px-2 rounded">4</span>
                                       Avoid the wrong ones!
                                   </li>
+                                  {directionalMode && (
+                                      <li className="flex items-start gap-2">
+                                          <span className="bg-purple-500/20 text-purple-300 font-bold px-2 rounded">5</span>
+                                          Swing the way the arrow points.
+                                      </li>
+                                  )}
+                                  {sentenceMode && (
+                                      <li className="flex items-start gap-2">
+                                          <ListOrdered size={16} className="text-blue-400 mt-0.5 shrink-0" />
+                                          Build sentences: slash their words in order.
+                                      </li>
+                                  )}
+                                  {bombsMode && (
+                                      <li className="flex items-start gap-2">
+                                          <Bomb size={16} className="text-red-400 mt-0.5 shrink-0" />
+                                          Don't touch the red bombs: they're misspelt.
+                                      </li>
+                                  )}
+                                  {wallsMode && inputMode === 'CAMERA' && (
+                                      <li className="flex items-start gap-2">
+                                          <BrickWall size={16} className="text-rose-400 mt-0.5 shrink-0" />
+                                          Lean or duck out of the way of the walls.
+                                      </li>
+                                  )}
+                                  {inputMode === 'POINTER' && (
+                                      <li className="text-xs text-gray-400 pt-1">
+                                          Drag the mouse or swipe a finger across a block to slash it (left half of the screen = red saber, right half = blue). Or use the keys: <span className="font-mono text-gray-300">Q W E R</span> / <span className="font-mono text-gray-300">A S D F</span> / <span className="font-mono text-gray-300">Z X C V</span> are the four lanes (top, middle, bottom row); hold an arrow key to choose the slash direction.
+                                      </li>
+                                  )}
                               </ul>
                           </div>
                       </div>
 
-                      {!isCameraReady ? (
+                      {replay && (
+                          <div className="flex items-center justify-between gap-3 bg-purple-900/20 border border-purple-500/30 rounded-lg p-3 mb-4 text-left text-sm text-purple-200">
+                              <span className="flex items-center gap-2">
+                                  <Film size={16} /> Replay of {replay.studentName || "a student"} from {new Date(replay.recordedAt).toLocaleString()}
+                              </span>
+                              <button onClick={closeReplay} className="text-purple-300 hover:text-white transition-colors" title="Close replay">
+                                  <X size={16} />
+                              </button>
+                          </div>
+                      )}
+
+                      {!isInputReady ? (
                            <div className="flex items-center justify-center text-red-400 gap-2 bg-red-900/20 p-4 rounded-lg">
                                <VideoOff /> Camera permissions needed.
                            </div>
                       ) : (
                           <button 
-                              onClick={startGame}
+                              onClick={() => startGame()}
                               className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white text-2xl font-bold py-4 px-16 rounded-full transition-all transform hover:scale-105 hover:shadow-[0_0_40px_rgba(59,130,246,0.6)] flex items-center justify-center mx-auto gap-3"
                           >
-                              <Play fill="currentColor" /> BEGIN LESSON
+                              {replay ? <><Film /> WATCH REPLAY</> : <><Play fill="currentColor" /> BEGIN LESSON</>}
                           </button>
                       )}
+
+                      {!replay && (
+                          <button onClick={runBenchmark} className="mt-4 mr-6 text-sm text-gray-400 hover:text-white inline-flex items-center gap-2 transition-colors" title="Play a very busy chart with the frame rate on screen. Nothing is scored.">
+                              <Activity size={14} /> Rendering benchmark
+                          </button>
+                      )}
+                      {!replay && (
+                          <label className="mt-4 text-sm text-gray-400 hover:text-white cursor-pointer inline-flex items-center gap-2 transition-colors">
+                              <Film size={14} /> Watch a recorded session…
+                              <input
+                                  type="file"
+                                  accept=".json,application/json"
+                                  className="hidden"
+                                  onChange={e => {
+                                      const file = e.target.files?.[0];
+                                      if (file) loadReplay(file);
+                                      e.target.value = '';
+                                  }}
+                              />
+                          </label>
+                      )}
+                      {replayErrors.length > 0 && (
+                          <ul className="mt-2 text-xs text-red-300 space-y-1">
+                              {replayErrors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                      )}
+                  </div>
+              )}
+
+              {gameStatus === GameStatus.CALIBRATION && (
+                  <CalibrationWizard 
+                      videoRef={videoRef}
+                      resultsRef={lastResultsRef}
+                      studentName={profile.name}
+                      initialHand={profile.calibration ? profile.calibration.dominantHand : DEFAULT_CALIBRATION.dominantHand}
+                      onSave={saveCalibration}
+                      onCancel={() => setGameStatus(GameStatus.IDLE)}
+                  />
+              )}
+
+              {gameStatus === GameStatus.DASHBOARD && (
+                  <TeacherDashboard 
+                      profiles={profileStore.profiles}
+                      onRemove={id => changeProfiles(store => removeProfile(store, id))}
+                      onClose={() => setGameStatus(GameStatus.IDLE)}
+                  />
+              )}
+
+              {gameStatus === GameStatus.EDITOR && editorDraft && (
+                  <LessonEditor 
+                      draft={editorDraft}
+                      onChange={setEditorDraft}
+                      onPreview={previewQuestion}
+                      onUse={applyEditedLesson}
+                      onClose={() => setGameStatus(GameStatus.IDLE)}
+                  />
+              )}
+
+              {gameStatus === GameStatus.PAUSED && (
+                  <div className="bg-slate-900/95 p-10 rounded-3xl text-center border-2 border-white/10 backdrop-blur-xl shadow-2xl min-w-[20rem]">
+                      {resumeCountdown !== null ? (
+                          <>
+                              <p className="text-gray-400 text-lg mb-2">Hands up! Resuming in</p>
+                              <p className="text-8xl font-black text-white">{resumeCountdown || "GO"}</p>
+                          </>
+                      ) : (
+                          <>
+                              <h2 className="text-5xl font-black text-white mb-2 flex items-center justify-center gap-3"><Pause className="w-10 h-10" /> PAUSED</h2>
+                              <p className="text-gray-400 mb-8">Score: {score.toLocaleString()}</p>
+                              <div className="flex flex-col gap-3">
+                                  <button 
+                                      onClick={resumeGame}
+                                      className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white text-xl font-bold py-3 px-10 rounded-full flex items-center justify-center gap-2 transition-all"
+                                  >
+                                      <Play fill="currentColor" /> Resume
+                                  </button>
+                                  <button 
+                                      onClick={restartLesson}
+                                      className="bg-white/10 hover:bg-white/20 text-white text-lg py-3 px-10 rounded-full flex items-center justify-center gap-2 transition-colors border border-white/20"
+                                  >
+                                      <RotateCcw /> Restart Lesson
+                                  </button>
+                                  <button 
+                                      onClick={quitLesson}
+                                      className="bg-white/10 hover:bg-white/20 text-white text-lg py-3 px-10 rounded-full flex items-center justify-center gap-2 transition-colors border border-white/20"
+                                  >
+                                      <RefreshCw /> Quit to Menu
+                                  </button>
+                              </div>
+                              <p className="text-xs text-gray-500 mt-6">A lesson you quit isn't saved to your progress.</p>
+                          </>
+                      )}
                   </div>
               )}
 
               {(gameStatus === GameStatus.GAME_OVER || gameStatus === GameStatus.VICTORY) && (
-                  <div className="bg-slate-900/95 p-12 rounded-3xl text-center border-2 border-white/10 backdrop-blur-xl shadow-2xl">
+                  <div className="bg-slate-900/95 p-8 md:p-12 rounded-3xl text-center border-2 border-white/10 backdrop-blur-xl shadow-2xl max-w-4xl w-full overflow-y-auto max-h-screen">
                       <h2 className={`text-6xl font-bold mb-4 ${gameStatus === GameStatus.VICTORY ? 'text-green-400' : 'text-red-500'}`}>
                           {gameStatus === GameStatus.VICTORY ? "LESSON COMPLETE" : "YOU FAILED!"}
                       </h2>
@@ -374,12 +1166,34 @@ const App: React.FC = () => {
                       <p className="text-gray-400 mb-8 text-lg">
                           {gameStatus === GameStatus.VICTORY ? "Excellent grammar skills!" : "Study your verbs and try again."}
                       </p>
-                      <button 
-                          onClick={() => setGameStatus(GameStatus.IDLE)}
-                          className="bg-white/10 hover:bg-white/20 text-white text-xl py-3 px-8 rounded-full flex items-center justify-center mx-auto gap-2 transition-colors border border-white/20"
-                      >
-                          <RefreshCw /> Return to Menu
-                      </button>
+
+                      <LessonReview results={lessonResults} totalQuestions={lessonQuestionsRef.current.size} />
+
+                      <div className="flex flex-col md:flex-row gap-3 justify-center">
+                          {failedQuestions.length > 0 && !replay && (
+                              <button 
+                                  onClick={() => startGame(failedQuestions)}
+                                  className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white text-xl font-bold py-3 px-8 rounded-full flex items-center justify-center gap-2 transition-all"
+                              >
+                                  <RotateCcw /> Retry the {failedQuestions.length} I Got Wrong
+                              </button>
+                          )}
+                          <button 
+                              onClick={() => setGameStatus(GameStatus.IDLE)}
+                              className="bg-white/10 hover:bg-white/20 text-white text-xl py-3 px-8 rounded-full flex items-center justify-center gap-2 transition-colors border border-white/20"
+                          >
+                              <RefreshCw /> Return to Menu
+                          </button>
+                      </div>
+
+                      {lastRecording && (
+                          <button 
+                              onClick={() => saveRecording(lastRecording)}
+                              className="mt-4 text-sm text-gray-400 hover:text-white inline-flex items-center gap-2 transition-colors"
+                          >
+                              <Save size={14} /> Save a recording of this run (for review or bug reports)
+                          </button>
+                      )}
                   </div>
               )}
           </div>
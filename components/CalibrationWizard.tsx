@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef, useState } from 'react';
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HandCalibration, HandType, COLORS } from '../types';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS, LANE_WIDTH, DEFAULT_CALIBRATION } from '../constants';
+import { CALIBRATION_CORNERS, CalibrationCorner, CornerSamples, computeCalibration, toggleMirror } from '../services/calibration';
+import { mapHandToWorld } from '../services/handTracking';
+import { Crosshair, X, Check, RotateCcw, FlipHorizontal } from 'lucide-react';
+
+interface CalibrationWizardProps {
+    videoRef: React.RefObject<HTMLVideoElement | null>;
+    resultsRef: React.MutableRefObject<HandLandmarkerResult | null>;
+    studentName: string;
+    initialHand: HandType;
+    onSave: (calibration: HandCalibration) => void;
+    onCancel: () => void;
+}
+
+const HOLD_TIME = 1.2;            // Seconds to hold still on a corner
+const STILL_RADIUS = 0.02;        // Fraction of the frame the fingertip may wobble while holding
+const MIN_CORNER_DISTANCE = 0.1;  // Each corner must be somewhere new
+
+const CORNER_LABELS: Record<CalibrationCorner, string> = {
+    topLeft: "up and to your LEFT",
+    topRight: "up and to your RIGHT",
+    bottomRight: "down and to your RIGHT",
+    bottomLeft: "down and to your LEFT"
+};
+
+// Where each corner's hint is drawn on the (mirrored) camera view
+const CORNER_HINTS: Record<CalibrationCorner, [number, number]> = {
+    topLeft: [0.12, 0.15],
+    topRight: [0.88, 0.15],
+    bottomRight: [0.88, 0.85],
+    bottomLeft: [0.12, 0.85]
+};
+
+type Step = 'hand' | 'corners' | 'review';
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ videoRef, resultsRef, studentName, initialHand, onSave, onCancel }) => {
+    const [step, setStep] = useState<Step>('hand');
+    const [dominantHand, setDominantHand] = useState<HandType>(initialHand);
+    const [cornerIndex, setCornerIndex] = useState(0);
+    const [calibration, setCalibration] = useState<HandCalibration | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const cameraCanvasRef = useRef<HTMLCanvasElement>(null);
+    const playAreaCanvasRef = useRef<HTMLCanvasElement>(null);
+    const samplesRef = useRef<Partial<CornerSamples>>({});
+
+    const corner = CALIBRATION_CORNERS[cornerIndex];
+
+    const restart = () => {
+        samplesRef.current = {};
+        setCornerIndex(0);
+        setCalibration(null);
+        setError(null);
+        setStep('corners');
+    };
+
+    useEffect(() => {
+        let frameId = 0;
+        let holdSamples: { t: number; x: number; y: number }[] = [];
+
+        const render = () => {
+            const results = resultsRef.current;
+            const tip = results && results.landmarks && results.landmarks.length > 0 ? results.landmarks[0][8] : null;
+            const now = performance.now() / 1000;
+            let holdProgress = 0;
+
+            // Corner capture: the fingertip has to stay put for HOLD_TIME
+            if (step === 'corners' && tip) {
+                holdSamples.push({ t: now, x: tip.x, y: tip.y });
+                holdSamples = holdSamples.filter(s => now - s.t <= HOLD_TIME);
+                const meanX = holdSamples.reduce((sum, s) => sum + s.x, 0) / holdSamples.length;
+                const meanY = holdSamples.reduce((sum, s) => sum + s.y, 0) / holdSamples.length;
+                const isStill = holdSamples.every(s => Math.hypot(s.x - meanX, s.y - meanY) < STILL_RADIUS);
+                const isNewSpot = Object.values(samplesRef.current).every(p => Math.hypot(p.x - meanX, p.y - meanY) > MIN_CORNER_DISTANCE);
+
+                if (!isStill || !isNewSpot) {
+                    holdSamples = [holdSamples[holdSamples.length - 1]];
+                } else {
+                    holdProgress = (now - holdSamples[0].t) / HOLD_TIME;
+                    if (holdProgress >= 0.95) {
+                        samplesRef.current[corner] = { x: meanX, y: meanY };
+                        holdSamples = [];
+                        if (cornerIndex < CALIBRATION_CORNERS.length - 1) {
+                            setCornerIndex(i => i + 1);
+                        } else {
+                            const fit = computeCalibration(samplesRef.current as CornerSamples, dominantHand);
+                            setCalibration(fit.calibration);
+                            setError(fit.error);
+                            setStep('review');
+                        }
+                    }
+                }
+            } else if (!tip) {
+                holdSamples = [];
+            }
+
+            // Camera view, mirrored like a mirror
+            const canvas = cameraCanvasRef.current;
+            const video = videoRef.current;
+            const ctx = canvas && canvas.getContext('2d');
+            if (canvas && ctx && video && video.readyState >= 2) {
+                if (canvas.width !== video.videoWidth) canvas.width = video.videoWidth;
+                if (canvas.height !== video.videoHeight) canvas.height = video.videoHeight;
+                const { width, height } = canvas;
+
+                ctx.save();
+                ctx.scale(-1, 1);
+                ctx.translate(-width, 0);
+                ctx.globalAlpha = 0.7;
+                ctx.drawImage(video, 0, 0, width, height);
+                ctx.restore();
+                ctx.globalAlpha = 1;
+
+                if (step === 'corners') {
+                    const [hx, hy] = CORNER_HINTS[corner];
+                    ctx.strokeStyle = '#facc15';
+                    ctx.lineWidth = 4;
+                    ctx.setLineDash([10, 8]);
+                    ctx.beginPath();
+                    ctx.arc(hx * width, hy * height, 40, 0, 2 * Math.PI);
+                    ctx.stroke();
+                    ctx.setLineDash([]);
+                }
+
+                // Captured corners
+                ctx.fillStyle = COLORS.correct;
+                Object.values(samplesRef.current).forEach(p => {
+                    ctx.beginPath();
+                    ctx.arc((1 - p.x) * width, p.y * height, 8, 0, 2 * Math.PI);
+                    ctx.fill();
+                });
+
+                if (tip) {
+                    const tx = (1 - tip.x) * width;
+                    const ty = tip.y * height;
+                    ctx.fillStyle = 'white';
+                    ctx.beginPath();
+                    ctx.arc(tx, ty, 8, 0, 2 * Math.PI);
+                    ctx.fill();
+                    if (holdProgress > 0) {
+                        ctx.strokeStyle = '#facc15';
+                        ctx.lineWidth = 6;
+                        ctx.beginPath();
+                        ctx.arc(tx, ty, 22, -Math.PI / 2, -Math.PI / 2 + Math.min(1, holdProgress) * 2 * Math.PI);
+                        ctx.stroke();
+                    }
+                }
+            }
+
+            // Play area preview: where the fingertip lands among the lanes with the new mapping
+            const area = playAreaCanvasRef.current;
+            const areaCtx = area && area.getContext('2d');
+            if (area && areaCtx && step === 'review' && calibration) {
+                const toX = (x: number) => ((x / (LANE_WIDTH * 2.5)) + 0.5) * area.width;
+                const toY = (y: number) => area.height - (y / 3.4) * area.height;
+                areaCtx.clearRect(0, 0, area.width, area.height);
+
+                LANE_X_POSITIONS.forEach((lx, lane) => {
+                    LAYER_Y_POSITIONS.forEach(ly => {
+                        areaCtx.strokeStyle = lane < 2 ? COLORS.left : COLORS.right;
+                        areaCtx.lineWidth = 2;
+                        areaCtx.strokeRect(toX(lx) - 16, toY(ly) - 16, 32, 32);
+                    });
+                });
+
+                if (tip) {
+                    const world = mapHandToWorld(tip.x, tip.y, calibration);
+                    areaCtx.fillStyle = 'white';
+                    areaCtx.beginPath();
+                    areaCtx.arc(toX(world.x), toY(world.y), 7, 0, 2 * Math.PI);
+                    areaCtx.fill();
+                }
+            }
+
+            frameId = requestAnimationFrame(render);
+        };
+        render();
+
+        return () => cancelAnimationFrame(frameId);
+    }, [step, corner, cornerIndex, calibration, dominantHand, videoRef, resultsRef]);
+
+    return (
+        <div className="bg-slate-900/95 p-8 rounded-3xl border-2 border-blue-500/30 backdrop-blur-xl max-w-3xl w-full shadow-2xl overflow-y-auto max-h-screen text-center">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-3xl font-black text-white flex items-center gap-3">
+                    <Crosshair className="w-8 h-8 text-blue-400" /> CALIBRATE <span className="text-blue-500">REACH</span>
+                </h2>
+                <button onClick={onCancel} className="p-2 rounded-lg border border-slate-700 bg-slate-800 text-gray-300 hover:bg-slate-700 transition-all" title="Back to menu">
+                    <X size={20} />
+                </button>
+            </div>
+
+            {step === 'hand' && (
+                <div className="space-y-6">
+                    <p className="text-gray-300">
+                        Hi {studentName}! Let's fit the play area to your reach so every block is easy to slash.
+                        Stand where you'll play, with your whole upper body in view of the camera.
+                    </p>
+                    <div>
+                        <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Which hand do you write with?</label>
+                        <div className="flex gap-2 justify-center">
+                            {(['left', 'right'] as HandType[]).map(hand => (
+                                <button
+                                    key={hand}
+                                    onClick={() => setDominantHand(hand)}
+                                    className={`py-3 px-8 rounded-lg border transition-all ${dominantHand === hand ? 'bg-blue-600 border-blue-400 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                                >
+                                    {hand === 'left' ? "Left" : "Right"}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex flex-col items-center gap-3">
+                        <button onClick={restart} className="bg-blue-600 hover:bg-blue-500 text-white text-xl font-bold py-3 px-10 rounded-full transition-colors">
+                            Start
+                        </button>
+                        <button onClick={() => onSave({ ...DEFAULT_CALIBRATION, dominantHand })} className="text-sm text-gray-400 hover:text-white underline transition-colors">
+                            Skip and use the standard play area
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {step === 'corners' && (
+                <p className="text-xl text-white mb-4">
+                    <span className="text-yellow-300 font-bold">{cornerIndex + 1}/{CALIBRATION_CORNERS.length}</span> Point one finger {CORNER_LABELS[corner]}, as far as you can comfortably reach, and hold still.
+                </p>
+            )}
+
+            {step === 'review' && (
+                <div className="mb-4">
+                    {error ? (
+                        <p className="text-red-300 mb-4">{error}</p>
+                    ) : (
+                        <p className="text-gray-300 mb-4">Move your hand around: the white dot should reach every block. If left and right are swapped, flip them.</p>
+                    )}
+                </div>
+            )}
+
+            {step !== 'hand' && (
+                <div className="flex flex-col md:flex-row gap-4 items-center justify-center">
+                    <canvas ref={cameraCanvasRef} className="w-full max-w-md rounded-xl border border-white/10 bg-black" />
+                    {step === 'review' && calibration && (
+                        <canvas ref={playAreaCanvasRef} width={240} height={200} className="rounded-xl border border-white/10 bg-black/40" />
+                    )}
+                </div>
+            )}
+
+            {step === 'review' && (
+                <div className="flex flex-wrap gap-3 justify-center mt-6">
+                    <button onClick={restart} className="py-2 px-6 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 text-white flex items-center gap-2 transition-colors">
+                        <RotateCcw size={16} /> Redo
+                    </button>
+                    {calibration && (
+                        <>
+                            <button onClick={() => setCalibration(toggleMirror(calibration))} className="py-2 px-6 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 text-white flex items-center gap-2 transition-colors">
+                                <FlipHorizontal size={16} /> Swap Left/Right
+                            </button>
+                            <button onClick={() => onSave(calibration)} className="py-2 px-8 rounded-full bg-green-600 hover:bg-green-500 text-white font-bold flex items-center gap-2 transition-colors">
+                                <Check size={16} /> Save
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef } from 'react';
+import { CurriculumPack } from '../types';
+import { BUILTIN_CURRICULUM } from '../constants';
+import { FileUp, AlertTriangle, RotateCcw, Library, PencilRuler } from 'lucide-react';
+
+interface CurriculumPanelProps {
+    pack: CurriculumPack;
+    errors: string[];
+    onFile: (file: File) => void;
+    onReset: () => void;
+    onEdit: () => void;
+    dueCount: number;
+}
+
+const CurriculumPanel: React.FC<CurriculumPanelProps> = ({ pack, errors, onFile, onReset, onEdit, dueCount }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const isBuiltin = pack.id === BUILTIN_CURRICULUM.id;
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onFile(file);
+        // Allow re-importing the same file after fixing it
+        e.target.value = '';
+    };
+
+    return (
+        <div>
+            <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Curriculum</label>
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-3">
+                <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 text-white min-w-0">
+                        <Library size={16} className="shrink-0" />
+                        <span className="truncate">{pack.title}</span>
+                    </span>
+                    <span className="text-xs text-gray-400 shrink-0">{pack.items.length} questions · {pack.locale}</span>
+                </div>
+                {dueCount > 0 && (
+                    <p className="text-xs text-yellow-300 mt-1">{dueCount} due for review</p>
+                )}
+                <div className="flex gap-2 mt-3">
+                    <button
+                        onClick={() => inputRef.current?.click()}
+                        className="flex-1 py-2 px-3 rounded-lg border border-slate-600 bg-slate-700 hover:bg-slate-600 text-sm text-white flex items-center justify-center gap-2 transition-all"
+                    >
+                        <FileUp size={16} /> Import Pack
+                    </button>
+                    <button
+                        onClick={onEdit}
+                        className="flex-1 py-2 px-3 rounded-lg border border-slate-600 bg-slate-700 hover:bg-slate-600 text-sm text-white flex items-center justify-center gap-2 transition-all"
+                    >
+                        <PencilRuler size={16} /> Edit Lesson
+                    </button>
+                    {!isBuiltin && (
+                        <button
+                            onClick={onReset}
+                            className="py-2 px-3 rounded-lg border border-slate-600 bg-slate-800 hover:bg-slate-700 text-sm text-gray-300 flex items-center justify-center gap-2 transition-all"
+                        >
+                            <RotateCcw size={16} /> Built-in
+                        </button>
+                    )}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">…or drop a curriculum .json file anywhere on this menu.</p>
+                <input ref={inputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleChange} />
+            </div>
+
+            {errors.length > 0 && (
+                <div className="mt-2 bg-red-900/20 border border-red-500/30 rounded-lg p-3 text-sm text-red-300 max-h-40 overflow-y-auto">
+                    <p className="font-bold flex items-center gap-2 mb-1"><AlertTriangle size={16} /> Could not import this pack</p>
+                    <ul className="list-disc pl-5 space-y-1">
+                        {errors.map((err, i) => <li key={i}>{err}</li>)}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CurriculumPanel;
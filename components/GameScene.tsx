@@ -5,62 +5,160 @@
 */
 
 
-import React, { useRef, useState, useMemo, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { Environment, Grid, PerspectiveCamera, Stars } from '@react-three/drei';
 import * as THREE from 'three';
-import { GameStatus, NoteData, HandPositions, COLORS, CutDirection } from '../types';
-import { PLAYER_Z, SPAWN_Z, MISS_Z, NOTE_SPEED, DIRECTION_VECTORS, LANE_X_POSITIONS, LAYER_Y_POSITIONS, SONG_BPM } from '../constants';
-import Note from './Note';
+import { RGBELoader } from 'three/examples/jsm/loaders/RGBELoader.js';
+import { GameStatus, NoteData, HandPositions, COLORS, DifficultyParams, UiFonts } from '../types';
+import { getBeatPhase, ENVIRONMENT_MAP_PATHS } from '../constants';
+import { createEngineState, stepEngine, getCurrentInstruction } from '../services/gameEngine';
+import { TrackedHands } from '../services/handTracking';
+import { createSabers, updateSabers } from '../services/saber';
+import { loadFirstAsset } from '../services/assets';
+import NoteField from './NoteField';
 import Saber from './Saber';
+import SlicedNotes from './SlicedNotes';
+import Walls from './Walls';
 
 interface GameSceneProps {
   gameStatus: GameStatus;
   audioRef: React.RefObject<HTMLAudioElement>;
   handPositionsRef: React.MutableRefObject<any>; 
+  interpolateHands: boolean; // Input arrives slower than the frame rate (camera, replays)
   chart: NoteData[];
+  layoutSeed?: number; // Adaptive runs lay out each question from this, so a replay matches the run
+  bpm: number;
+  beatOffset: number;
+  songDuration?: number; // Seconds, when the track's length is known before its audio has loaded
+  directional: boolean;
+  directionTolerance: number; // Degrees
+  adaptive: boolean;
+  difficultyRef: React.MutableRefObject<DifficultyParams>; // Live difficulty, read at spawn time
   onNoteHit: (note: NoteData, goodCut: boolean) => void;
   onNoteMiss: (note: NoteData) => void;
   onSongEnd: () => void;
   setInstruction: (text: string) => void;
+  fonts: UiFonts;
 }
 
-const BEAT_TIME = 60 / SONG_BPM;
+const PREVIEW_TAIL_TIME = 1.5; // Seconds to linger after the preview question passes
 
 const GameScene: React.FC<GameSceneProps> = ({ 
     gameStatus, 
     audioRef, 
     handPositionsRef, 
+    interpolateHands,
     chart,
+    layoutSeed,
+    bpm,
+    beatOffset,
+    songDuration,
+    directional,
+    directionTolerance,
+    adaptive,
+    difficultyRef,
     onNoteHit,
     onNoteMiss,
     onSongEnd,
-    setInstruction
+    setInstruction,
+    fonts
 }) => {
-  const [notesState, setNotesState] = useState<NoteData[]>(chart);
-  const [currentTime, setCurrentTime] = useState(0);
-
-  const activeNotesRef = useRef<NoteData[]>([]);
-  const nextNoteIndexRef = useRef(0);
+  // Everything that changes per frame lives in refs; the scene renders through React only when its props change
+  const timeRef = useRef(0);
+  const instructionRef = useRef<string | null>(null);
+  const engineRef = useRef(createEngineState(chart, layoutSeed));
+  const sabersRef = useRef(createSabers());
+  const slicesRef = useRef<NoteData[]>([]);
   const shakeIntensity = useRef(0);
   const cameraRef = useRef<THREE.PerspectiveCamera>(null);
   const ambientLightRef = useRef<THREE.AmbientLight>(null);
   const spotLightRef = useRef<THREE.SpotLight>(null);
 
-  const vecA = useMemo(() => new THREE.Vector3(), []);
-  const vecB = useMemo(() => new THREE.Vector3(), []);
+  // Reflections are only decoration: if no copy of the map loads the scene just goes without
+  const [environmentMap, setEnvironmentMap] = useState<THREE.Texture | null>(null);
+  useEffect(() => {
+      let isActive = true;
+      let loaded: THREE.Texture | null = null;
+      loadFirstAsset(ENVIRONMENT_MAP_PATHS, url => new RGBELoader().loadAsync(url))
+          .then(texture => {
+              texture.mapping = THREE.EquirectangularReflectionMapping;
+              if (!isActive) {
+                  texture.dispose();
+                  return;
+              }
+              loaded = texture;
+              setEnvironmentMap(texture);
+          })
+          .catch(err => console.warn("Scene reflections unavailable:", err));
+      return () => {
+          isActive = false;
+          if (loaded) loaded.dispose();
+      };
+  }, []);
+
+  // Reset playback state whenever a fresh chart is handed in (e.g. a new lesson starts)
+  useEffect(() => {
+      engineRef.current = createEngineState(chart, layoutSeed);
+      instructionRef.current = null;
+  }, [chart, layoutSeed]);
 
   const handleHit = (note: NoteData, goodCut: boolean) => {
       // Screen shake feedback: Light shake for success, Hard shake for failure/wrong answer
       shakeIntensity.current = goodCut ? 0.2 : 0.6; 
+      slicesRef.current.push(note);
       onNoteHit(note, goodCut);
   }
 
+  // Sabers ease from each hand's previous sample to its latest over one sample interval,
+  // so 30 fps tracking still moves smoothly at the display's frame rate
+  const sampleSeenRef = useRef({ timestamp: -1, seenAt: 0 });
+  const displayHandsRef = useRef<HandPositions>({ left: null, right: null, leftVelocity: new THREE.Vector3(), rightVelocity: new THREE.Vector3() });
+  const leftInterpolated = useRef(new THREE.Vector3());
+  const rightInterpolated = useRef(new THREE.Vector3());
+
+  const interpolate = (from: THREE.Vector3 | null, to: THREE.Vector3 | null, progress: number, out: THREE.Vector3) => {
+     if (!to) return null;
+     return from ? out.lerpVectors(from, to, progress) : to;
+  };
+
+  const updateDisplayHands = () => {
+     const hands = handPositionsRef.current as TrackedHands;
+     const display = displayHandsRef.current;
+     if (interpolateHands) {
+         const seen = sampleSeenRef.current;
+         const now = performance.now();
+         if (hands.lastTimestamp !== seen.timestamp) {
+             seen.timestamp = hands.lastTimestamp;
+             seen.seenAt = now;
+         }
+         const interval = hands.lastTimestamp - hands.previousTimestamp;
+         const progress = interval > 0 ? Math.min(1, (now - seen.seenAt) / interval) : 1;
+         display.left = interpolate(hands.lastLeft, hands.left, progress, leftInterpolated.current);
+         display.right = interpolate(hands.lastRight, hands.right, progress, rightInterpolated.current);
+     } else {
+         display.left = hands.left;
+         display.right = hands.right;
+     }
+     display.leftVelocity = hands.leftVelocity;
+     display.rightVelocity = hands.rightVelocity;
+     display.head = hands.head;
+     return display;
+  };
+
+  // Runs ahead of the other frame callbacks so the Sabers draw this frame's pose
   useFrame((state, delta) => {
+    // --- Sabers ---
+    // The blades that are drawn are the blades that cut
+    const hands = updateDisplayHands();
+    updateSabers(sabersRef.current, hands, delta);
+
     // --- Beat Pulsing ---
-    if (audioRef.current && gameStatus === GameStatus.PLAYING) {
+    const isRunning = gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.PREVIEW;
+
+    if (audioRef.current && isRunning) {
         const time = audioRef.current.currentTime;
-        const beatPhase = (time % BEAT_TIME) / BEAT_TIME;
+        const beatPhase = getBeatPhase(time, bpm, beatOffset);
         const pulse = Math.pow(1 - beatPhase, 4); 
         
         if (ambientLightRef.current) {
@@ -85,122 +183,47 @@ const GameScene: React.FC<GameSceneProps> = ({
         }
     }
 
-    if (gameStatus !== GameStatus.PLAYING || !audioRef.current) return;
+    if (!isRunning || !audioRef.current) return;
 
     const time = audioRef.current.currentTime;
-    setCurrentTime(time);
+    timeRef.current = time;
 
     if (audioRef.current.ended) {
         onSongEnd();
         return;
     }
 
-    // 1. Spawn Notes
-    const spawnAheadTime = Math.abs(SPAWN_Z - PLAYER_Z) / NOTE_SPEED;
-    
-    while (nextNoteIndexRef.current < notesState.length) {
-      const nextNote = notesState[nextNoteIndexRef.current];
-      if (nextNote.time - spawnAheadTime <= time) {
-        activeNotesRef.current.push(nextNote);
-        nextNoteIndexRef.current++;
-      } else {
-        break;
-      }
-    }
-
-    // Update Instruction based on the next closest active note
-    if (activeNotesRef.current.length > 0) {
-        // Sort by closeness to player
-        const incoming = activeNotesRef.current.filter(n => !n.hit && !n.missed);
-        if (incoming.length > 0) {
-            // Assuming notes spawned together have same instruction
-            const closest = incoming[0];
-            setInstruction(closest.instruction);
+    // Previews only last as long as their question, not the whole song
+    const { notes } = engineRef.current;
+    if (gameStatus === GameStatus.PREVIEW && notes.length > 0) {
+        const lastNoteTime = notes[notes.length - 1].time;
+        if (time > lastNoteTime + PREVIEW_TAIL_TIME) {
+            onSongEnd();
+            return;
         }
     }
 
-    // 2. Update & Collide Notes
-    const hands = handPositionsRef.current as HandPositions;
-
-    for (let i = activeNotesRef.current.length - 1; i >= 0; i--) {
-        const note = activeNotesRef.current[i];
-        if (note.hit || note.missed) continue;
-
-        const timeDiff = note.time - time; 
-        const currentZ = PLAYER_Z - (timeDiff * NOTE_SPEED);
-
-        // Miss check (passed player)
-        if (currentZ > MISS_Z) {
-            note.missed = true;
-            onNoteMiss(note);
-            activeNotesRef.current.splice(i, 1);
-            continue;
-        }
-
-        // Collision check
-        // We check a range around the player's Z position
-        if (currentZ > PLAYER_Z - 1.5 && currentZ < PLAYER_Z + 1.0) {
-            const handPos = note.type === 'left' ? hands.left : hands.right;
-            const handVel = note.type === 'left' ? hands.leftVelocity : hands.rightVelocity;
-
-            if (handPos) {
-                 const notePos = vecA.set(
-                     LANE_X_POSITIONS[note.lineIndex],
-                     LAYER_Y_POSITIONS[note.lineLayer],
-                     currentZ
-                 );
-
-                 // Hitbox radius
-                 if (handPos.distanceTo(notePos) < 1.0) { // Increased from 0.8 for better registration
-                     const speed = handVel.length();
-
-                     // THRESHOLD ADJUSTMENT:
-                     // Lowered speed requirement to 0.5 (was 1.5) to make slashes easier to register.
-                     // Crucially: If speed is too low, we CONTINUE (ignore), rather than counting it as a "Bad Cut".
-                     // This prevents accidental stationary touches from penalizing the player.
-                     if (speed < 0.5) {
-                         continue; 
-                     }
-                     
-                     let goodCut = true;
-                     
-                     // LOGIC: 
-                     // Slashing the CORRECT answer is a Good Cut.
-                     // Slashing the WRONG answer is a Bad Cut.
-                     if (!note.isCorrect) {
-                         goodCut = false;
-                     }
-
-                     note.hit = true;
-                     note.hitTime = time;
-                     handleHit(note, goodCut);
-                     activeNotesRef.current.splice(i, 1);
-                 }
-            }
-        }
+    // Game rules: spawn, miss and cut detection
+    const events = stepEngine(engineRef.current, time, hands, sabersRef.current, {
+        directional,
+        directionTolerance,
+        adaptive,
+        bpm,
+        duration: Number.isFinite(audioRef.current.duration) ? audioRef.current.duration : songDuration,
+        getDifficulty: () => difficultyRef.current
+    });
+    events.forEach(event => {
+        if (event.type === 'hit') handleHit(event.note, event.goodCut);
+        else if (event.type === 'miss') onNoteMiss(event.note);
+    });
+
+    // Show the question on the block nearest the player
+    const instruction = getCurrentInstruction(engineRef.current);
+    if (instruction && instruction !== instructionRef.current) {
+        instructionRef.current = instruction;
+        setInstruction(instruction);
     }
-  });
-
-  const visibleNotes = useMemo(() => {
-     return notesState.filter(n => 
-         !n.missed && 
-         (!n.hit || (currentTime - (n.hitTime || 0) < 0.5)) && 
-         (n.time - currentTime) < 6 && 
-         (n.time - currentTime) > -2 
-     );
-  }, [notesState, currentTime]);
-
-  const leftHandPosRef = useRef<THREE.Vector3 | null>(null);
-  const rightHandPosRef = useRef<THREE.Vector3 | null>(null);
-  const leftHandVelRef = useRef<THREE.Vector3 | null>(null);
-  const rightHandVelRef = useRef<THREE.Vector3 | null>(null);
-
-  useFrame(() => {
-     leftHandPosRef.current = handPositionsRef.current.left;
-     rightHandPosRef.current = handPositionsRef.current.right;
-     leftHandVelRef.current = handPositionsRef.current.leftVelocity;
-     rightHandVelRef.current = handPositionsRef.current.rightVelocity;
-  });
+  }, -1);
 
   return (
     <>
@@ -211,7 +234,7 @@ const GameScene: React.FC<GameSceneProps> = ({
       <ambientLight ref={ambientLightRef} intensity={0.4} />
       <spotLight ref={spotLightRef} position={[0, 10, 5]} angle={0.5} penumbra={1} intensity={1} castShadow />
       
-      <Environment preset="city" />
+      {environmentMap && <Environment map={environmentMap} />}
 
       <Grid position={[0, 0, 0]} args={[6, 100]} cellThickness={0.1} cellColor="#444" sectionSize={5} sectionThickness={1.5} sectionColor={COLORS.right} fadeDistance={60} infiniteGrid />
       <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]}>
@@ -221,17 +244,12 @@ const GameScene: React.FC<GameSceneProps> = ({
       
       <Stars radius={50} depth={50} count={1000} factor={4} saturation={0} fade speed={1} />
 
-      <Saber type="left" positionRef={leftHandPosRef} velocityRef={leftHandVelRef} />
-      <Saber type="right" positionRef={rightHandPosRef} velocityRef={rightHandVelRef} />
-
-      {visibleNotes.map(note => (
-          <Note 
-            key={note.id} 
-            data={note} 
-            zPos={PLAYER_Z - ((note.time - currentTime) * NOTE_SPEED)} 
-            currentTime={currentTime}
-          />
-      ))}
+      <Saber type="left" pose={sabersRef.current.left} />
+      <Saber type="right" pose={sabersRef.current.right} />
+      <SlicedNotes hitsRef={slicesRef} fonts={fonts} />
+
+      <NoteField engineRef={engineRef} timeRef={timeRef} showDirection={directional} fonts={fonts} />
+      <Walls engineRef={engineRef} timeRef={timeRef} />
     </>
   );
 };
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef } from 'react';
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HandCalibration } from '../types';
+import { getCursorHand, getCursorPosition, isPinching, createPauseGestureState, updatePauseGesture } from '../services/handGestures';
+
+interface GestureControlsProps {
+    resultsRef: React.MutableRefObject<HandLandmarkerResult | null>;
+    calibrationRef: React.MutableRefObject<HandCalibration>;
+    showCursor: boolean;     // Menus: point at buttons to press them
+    onPause?: () => void;    // Lessons: both hands pinching pauses
+}
+
+const DWELL_TIME = 1.2;        // Seconds hovering a button to press it
+const PAUSE_HOLD_TIME = 1.0;   // Seconds both hands must pinch to pause
+const CURSOR_SMOOTHING = 0.35; // Share of the way to the fingertip the cursor moves each frame
+const GESTURE_TARGETS = 'button, [data-gesture-target]';
+const HOVER_CLASSES = ['ring-4', 'ring-yellow-300'];
+const RING_RADIUS = 20;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+// Runs its own animation loop and moves its elements directly: re-rendering App every frame would be far too slow
+const GestureControls: React.FC<GestureControlsProps> = ({ resultsRef, calibrationRef, showCursor, onPause }) => {
+    const cursorRef = useRef<HTMLDivElement>(null);
+    const dwellRingRef = useRef<SVGCircleElement>(null);
+    const pauseRef = useRef<HTMLDivElement>(null);
+    const pauseBarRef = useRef<HTMLDivElement>(null);
+
+    // Always call the latest callback without restarting the loop
+    const onPauseRef = useRef(onPause);
+    useEffect(() => {
+        onPauseRef.current = onPause;
+    }, [onPause]);
+
+    useEffect(() => {
+        let frameId = 0;
+        let position: { x: number; y: number } | null = null;
+        let target: HTMLElement | null = null;
+        let hoverStart = 0;
+        let pressed = false; // Each hover presses its button once
+        let pinching = false;
+        const pauseState = createPauseGestureState();
+
+        const setTarget = (next: HTMLElement | null, now: number) => {
+            if (next === target) return;
+            if (target) target.classList.remove(...HOVER_CLASSES);
+            target = next;
+            if (target) target.classList.add(...HOVER_CLASSES);
+            hoverStart = now;
+            pressed = false;
+        };
+
+        const press = () => {
+            pressed = true;
+            if (target) target.click();
+        };
+
+        const update = () => {
+            const now = performance.now() / 1000;
+            const calibration = calibrationRef.current;
+            const hand = showCursor ? getCursorHand(resultsRef.current, calibration) : null;
+            const cursor = cursorRef.current;
+            let dwell = 0;
+
+            if (hand && cursor) {
+                const next = getCursorPosition(hand, calibration);
+                position = position
+                    ? { x: position.x + (next.x - position.x) * CURSOR_SMOOTHING, y: position.y + (next.y - position.y) * CURSOR_SMOOTHING }
+                    : next;
+                const x = position.x * window.innerWidth;
+                const y = position.y * window.innerHeight;
+                cursor.style.opacity = '1';
+                cursor.style.transform = `translate(${x}px, ${y}px)`;
+
+                const element = document.elementFromPoint(x, y);
+                const hovered = element ? element.closest<HTMLElement>(GESTURE_TARGETS) : null;
+                setTarget(hovered && !(hovered as HTMLButtonElement).disabled ? hovered : null, now);
+
+                // A pinch presses straight away; otherwise hovering long enough does
+                const wasPinching = pinching;
+                pinching = isPinching(hand, pinching);
+                if (target && !pressed) {
+                    dwell = Math.min(1, (now - hoverStart) / DWELL_TIME);
+                    if ((pinching && !wasPinching) || dwell >= 1) press();
+                }
+            } else {
+                position = null;
+                pinching = false;
+                setTarget(null, now);
+                if (cursor) cursor.style.opacity = '0';
+            }
+
+            if (dwellRingRef.current) {
+                dwellRingRef.current.style.strokeDashoffset = String(RING_LENGTH * (1 - dwell));
+            }
+
+            // Pause gesture, with a bar filling up so it never comes as a surprise
+            const pauseProgress = onPauseRef.current ? updatePauseGesture(pauseState, resultsRef.current, now, PAUSE_HOLD_TIME) : 0;
+            if (pauseRef.current && pauseBarRef.current) {
+                pauseRef.current.style.opacity = pauseProgress > 0 ? '1' : '0';
+                pauseBarRef.current.style.width = `${pauseProgress * 100}%`;
+            }
+            if (pauseProgress >= 1 && onPauseRef.current) {
+                pauseState.heldSince = null;
+                onPauseRef.current();
+            }
+
+            frameId = requestAnimationFrame(update);
+        };
+        frameId = requestAnimationFrame(update);
+
+        return () => {
+            cancelAnimationFrame(frameId);
+            if (target) target.classList.remove(...HOVER_CLASSES);
+        };
+    }, [resultsRef, calibrationRef, showCursor]);
+
+    return (
+        <>
+            <div ref={cursorRef} className="fixed top-0 left-0 z-[100] pointer-events-none opacity-0 transition-opacity" style={{ marginLeft: -RING_RADIUS - 4, marginTop: -RING_RADIUS - 4 }}>
+                <svg width={2 * RING_RADIUS + 8} height={2 * RING_RADIUS + 8}>
+                    <circle cx={RING_RADIUS + 4} cy={RING_RADIUS + 4} r={6} fill="white" />
+                    <circle cx={RING_RADIUS + 4} cy={RING_RADIUS + 4} r={RING_RADIUS} fill="none" stroke="white" strokeOpacity={0.3} strokeWidth={3} />
+                    <circle
+                        ref={dwellRingRef}
+                        cx={RING_RADIUS + 4} cy={RING_RADIUS + 4} r={RING_RADIUS}
+                        fill="none" stroke="#facc15" strokeWidth={4}
+                        strokeDasharray={RING_LENGTH} strokeDashoffset={RING_LENGTH}
+                        transform={`rotate(-90 ${RING_RADIUS + 4} ${RING_RADIUS + 4})`}
+                    />
+                </svg>
+            </div>
+
+            <div ref={pauseRef} className="fixed top-28 left-1/2 -translate-x-1/2 z-[100] pointer-events-none opacity-0 transition-opacity bg-black/70 border border-white/20 rounded-full px-5 py-2 text-white text-sm font-bold">
+                Keep pinching to pause
+                <div className="mt-1 h-1.5 w-40 bg-white/20 rounded-full overflow-hidden">
+                    <div ref={pauseBarRef} className="h-full bg-yellow-300" style={{ width: 0 }} />
+                </div>
+            </div>
+        </>
+    );
+};
+
+export default GestureControls;
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState } from 'react';
+import { CurriculumPack, QuestionSet } from '../types';
+import { createQuestionId, finalizeDraftPack, serializeCurriculumPack } from '../services/curriculum';
+import { downloadFile, toFileSlug } from '../services/download';
+import { ArrowUp, ArrowDown, Trash2, Plus, Eye, Download, Check, X, AlertTriangle, PencilRuler } from 'lucide-react';
+
+interface LessonEditorProps {
+    draft: CurriculumPack;
+    onChange: (draft: CurriculumPack) => void;
+    onPreview: (question: QuestionSet) => void;
+    onUse: (pack: CurriculumPack) => void;
+    onClose: () => void;
+}
+
+// Comma separated inputs are kept loose while typing and cleaned up on export
+const toList = (text: string): string[] => text.split(/,\s*/);
+const fromList = (list: string[] = []): string => list.join(', ');
+// Sentence words are split on slashes: a single "word" may hold a space
+const toWords = (text: string): string[] => text.split(/\s*\/\s*/);
+const fromWords = (list: string[] = []): string => list.join(' / ');
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-400";
+const iconButtonClass = "p-2 rounded-lg border border-slate-700 bg-slate-800 text-gray-300 hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-slate-800 transition-all";
+
+const LessonEditor: React.FC<LessonEditorProps> = ({ draft, onChange, onPreview, onUse, onClose }) => {
+    const [errors, setErrors] = useState<string[]>([]);
+
+    const updateItem = (index: number, patch: Partial<QuestionSet>) => {
+        const items = draft.items.map((item, i) => i === index ? { ...item, ...patch } : item);
+        onChange({ ...draft, items });
+    };
+
+    const moveItem = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= draft.items.length) return;
+        const items = [...draft.items];
+        [items[index], items[target]] = [items[target], items[index]];
+        onChange({ ...draft, items });
+    };
+
+    const deleteItem = (index: number) => {
+        onChange({ ...draft, items: draft.items.filter((_, i) => i !== index) });
+    };
+
+    const addItem = () => {
+        const item: QuestionSet = {
+            id: createQuestionId(draft.id),
+            instruction: "",
+            correct: "",
+            distractors: [],
+            tags: []
+        };
+        onChange({ ...draft, items: [...draft.items, item] });
+    };
+
+    // Validate with the importer's rules so exported files always load back in
+    const finalize = (): CurriculumPack | null => {
+        const result = finalizeDraftPack(draft);
+        setErrors(result.errors);
+        return result.pack;
+    };
+
+    const handleExport = () => {
+        const pack = finalize();
+        if (pack) downloadFile(`${toFileSlug(pack.title)}.json`, serializeCurriculumPack(pack));
+    };
+
+    const handleUse = () => {
+        const pack = finalize();
+        if (pack) onUse(pack);
+    };
+
+    const handlePreview = (item: QuestionSet) => {
+        const result = finalizeDraftPack({ ...draft, items: [item] });
+        setErrors(result.errors);
+        if (result.pack) onPreview(result.pack.items[0]);
+    };
+
+    return (
+        <div className="bg-slate-900/95 p-8 rounded-3xl border-2 border-blue-500/30 backdrop-blur-xl max-w-5xl w-full shadow-2xl overflow-y-auto max-h-screen text-left">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-3xl font-black text-white flex items-center gap-3">
+                    <PencilRuler className="w-8 h-8 text-blue-400" /> LESSON <span className="text-blue-500">EDITOR</span>
+                </h2>
+                <button onClick={onClose} className={iconButtonClass} title="Back to menu">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="md:col-span-2">
+                    <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Lesson Title</label>
+                    <input className={inputClass} value={draft.title} onChange={e => onChange({ ...draft, title: e.target.value })} />
+                </div>
+                <div>
+                    <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Locale</label>
+                    <input className={inputClass} value={draft.locale} placeholder="en-GB" onChange={e => onChange({ ...draft, locale: e.target.value })} />
+                </div>
+            </div>
+
+            <div className="space-y-3 mb-6">
+                {draft.items.map((item, index) => (
+                    <div key={item.id || index} className="bg-white/5 border border-white/10 rounded-xl p-4">
+                        <div className="flex items-start gap-3">
+                            <span className="bg-blue-500/20 text-blue-300 font-bold px-2 py-1 rounded text-sm mt-1">{index + 1}</span>
+                            <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-3">
+                                <div className="md:col-span-2">
+                                    <input className={inputClass} value={item.instruction} placeholder="Sentence with a ___ blank" onChange={e => updateItem(index, { instruction: e.target.value })} />
+                                </div>
+                                <input className={`${inputClass} border-green-700/60`} value={item.correct} placeholder="Correct word" onChange={e => updateItem(index, { correct: e.target.value })} />
+                                <input className={`${inputClass} border-red-700/60`} value={fromList(item.distractors)} placeholder="Distractors, comma separated" onChange={e => updateItem(index, { distractors: toList(e.target.value) })} />
+                                <input className={`${inputClass} border-orange-700/60`} value={fromList(item.misspellings)} placeholder="Misspellings (bombs), comma separated" onChange={e => updateItem(index, { misspellings: toList(e.target.value) })} />
+                                <input className={inputClass} value={fromList(item.tags)} placeholder="Tags, e.g. past-simple, irregular" onChange={e => updateItem(index, { tags: toList(e.target.value) })} />
+                                <div className="md:col-span-2">
+                                    <input className={inputClass} value={fromWords(item.sequence)} placeholder="Sentence building: the answer word by word, e.g. I / HAVE / EATEN" onChange={e => updateItem(index, { sequence: toWords(e.target.value) })} />
+                                </div>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                <button onClick={() => moveItem(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up"><ArrowUp size={16} /></button>
+                                <button onClick={() => moveItem(index, 1)} disabled={index === draft.items.length - 1} className={iconButtonClass} title="Move down"><ArrowDown size={16} /></button>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                <button onClick={() => handlePreview(item)} className={iconButtonClass} title="Preview on the track"><Eye size={16} /></button>
+                                <button onClick={() => deleteItem(index)} className={`${iconButtonClass} hover:text-red-400`} title="Delete question"><Trash2 size={16} /></button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+
+                <button onClick={addItem} className="w-full py-3 rounded-xl border-2 border-dashed border-slate-700 text-gray-400 hover:border-blue-400 hover:text-white flex items-center justify-center gap-2 transition-all">
+                    <Plus size={18} /> Add Question
+                </button>
+            </div>
+
+            {errors.length > 0 && (
+                <div className="mb-6 bg-red-900/20 border border-red-500/30 rounded-lg p-3 text-sm text-red-300 max-h-40 overflow-y-auto">
+                    <p className="font-bold flex items-center gap-2 mb-1"><AlertTriangle size={16} /> Fix these before continuing</p>
+                    <ul className="list-disc pl-5 space-y-1">
+                        {errors.map((err, i) => <li key={i}>{err}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <div className="flex flex-col md:flex-row gap-3 justify-end">
+                <button onClick={handleExport} className="py-3 px-6 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2 transition-colors">
+                    <Download size={18} /> Export Curriculum
+                </button>
+                <button onClick={handleUse} className="py-3 px-6 rounded-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white font-bold flex items-center justify-center gap-2 transition-all">
+                    <Check size={18} /> Use This Lesson
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default LessonEditor;
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { QuestionResult } from '../types';
+import { summarizeByTag, getResultCredit } from '../services/lessonResults';
+import { JUDGEMENT_COLORS } from '../services/scoring';
+import { CheckCircle2, XCircle, MinusCircle, CircleDot } from 'lucide-react';
+
+interface LessonReviewProps {
+    results: QuestionResult[];
+    totalQuestions: number;
+}
+
+// Show the sentence as it should read, with the right word in the blank
+const fillBlank = (instruction: string, word: string) =>
+    instruction.includes('___') ? instruction.replace('___', word) : instruction;
+
+const OutcomeIcon: React.FC<{ result: QuestionResult }> = ({ result }) => {
+    if (result.outcome === 'correct') return <CheckCircle2 size={18} className="text-green-400 shrink-0" />;
+    if (result.outcome === 'wrong') return <XCircle size={18} className="text-red-400 shrink-0" />;
+    if (result.outcome === 'partial') return <CircleDot size={18} className="text-yellow-400 shrink-0" />;
+    return <MinusCircle size={18} className="text-gray-500 shrink-0" />;
+};
+
+const LessonReview: React.FC<LessonReviewProps> = ({ results, totalQuestions }) => {
+    const tagAccuracy = summarizeByTag(results);
+    const correctCount = results.filter(r => r.outcome === 'correct').length;
+    const partialCount = results.filter(r => r.outcome === 'partial').length;
+    const notReached = Math.max(0, totalQuestions - results.length);
+
+    if (results.length === 0) {
+        return <p className="text-gray-400 mb-8">No questions were answered this time.</p>;
+    }
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-left mb-8">
+            {/* Question by question */}
+            <div className="md:col-span-2 bg-white/5 border border-white/10 rounded-xl p-4">
+                <h3 className="text-white font-bold border-b border-white/10 pb-2 mb-2 flex justify-between">
+                    <span>Your Answers</span>
+                    <span className="text-gray-400 font-normal">
+                        {correctCount} / {results.length} correct{partialCount > 0 && `, ${partialCount} in part`}
+                    </span>
+                </h3>
+                <div className="max-h-72 overflow-y-auto divide-y divide-white/5">
+                    {results.map(result => (
+                        <div key={result.questionId} className="py-2 flex items-start gap-3 text-sm">
+                            <OutcomeIcon result={result} />
+                            <div className="flex-1 min-w-0">
+                                <p className="text-white">{fillBlank(result.instruction, result.correct)}</p>
+                                <p className="text-gray-400">
+                                    {result.outcome === 'missed' ? (
+                                        <span>Missed — answer was <span className="text-green-400 font-bold">{result.correct}</span></span>
+                                    ) : result.outcome === 'partial' && result.sentence ? (
+                                        <span>
+                                            {result.sentence.inOrder} of {result.sentence.words} words in order ({Math.round(getResultCredit(result) * 100)}%)
+                                            {' '}— answer was <span className="text-green-400 font-bold">{result.correct}</span>
+                                        </span>
+                                    ) : result.outcome === 'wrong' ? (
+                                        <span>
+                                            You slashed <span className="text-red-400 font-bold">{result.wrongAnswers.join(', ')}</span>
+                                            {' '}— answer was <span className="text-green-400 font-bold">{result.correct}</span>
+                                        </span>
+                                    ) : (
+                                        <span>You slashed <span className="text-green-400 font-bold">{result.answer}</span></span>
+                                    )}
+                                </p>
+                            </div>
+                            <div className="text-right shrink-0">
+                                {result.judgement && (
+                                    <p className="text-xs font-bold" style={{ color: JUDGEMENT_COLORS[result.judgement] }}>{result.judgement}</p>
+                                )}
+                                {result.reactionTime !== undefined && (
+                                    <p className="text-xs text-gray-500">{result.reactionTime.toFixed(1)}s</p>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+                {notReached > 0 && (
+                    <p className="text-xs text-gray-500 mt-2">{notReached} question{notReached === 1 ? '' : 's'} not reached.</p>
+                )}
+            </div>
+
+            {/* Grammar categories, weakest first */}
+            <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+                <h3 className="text-white font-bold border-b border-white/10 pb-2 mb-3">By Category</h3>
+                <div className="space-y-3">
+                    {tagAccuracy.map(({ tag, correct, total }) => {
+                        const pct = Math.round((correct / total) * 100);
+                        return (
+                            <div key={tag}>
+                                <div className="flex justify-between text-xs text-gray-300 mb-1">
+                                    <span>{tag}</span>
+                                    <span>{correct}/{total}</span>
+                                </div>
+                                <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                                    <div
+                                        className={`h-full ${pct >= 80 ? 'bg-green-500' : pct >= 50 ? 'bg-yellow-500' : 'bg-red-600'}`}
+                                        style={{ width: `${pct}%` }}
+                                    />
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LessonReview;
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef } from 'react';
+import { MusicTrack } from '../types';
+import { Music, Upload, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+
+interface MusicLibraryProps {
+    tracks: MusicTrack[];
+    selectedTrackId: string;
+    isAnalysing: boolean;
+    error: string | null;
+    onSelect: (id: string) => void;
+    onAdd: (file: File) => void;
+    onRemove: (id: string) => void;
+}
+
+const formatDuration = (seconds?: number) => {
+    if (!seconds) return '';
+    const m = Math.floor(seconds / 60);
+    const s = Math.round(seconds % 60).toString().padStart(2, '0');
+    return `${m}:${s}`;
+};
+
+const MusicLibrary: React.FC<MusicLibraryProps> = ({ tracks, selectedTrackId, isAnalysing, error, onSelect, onAdd, onRemove }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onAdd(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div>
+            <label className="text-gray-400 text-xs uppercase font-bold mb-2 block">Background Music</label>
+            <div className="space-y-2">
+                {tracks.map(track => (
+                    <div key={track.id} className="flex gap-2">
+                        <button
+                            onClick={() => onSelect(track.id)}
+                            className={`flex-1 min-w-0 text-left px-4 py-3 rounded-lg flex items-center justify-between border transition-all ${selectedTrackId === track.id ? 'bg-slate-700 border-blue-400 text-white' : 'bg-slate-800/50 border-transparent text-gray-400 hover:bg-slate-700'}`}
+                        >
+                            <span className="flex items-center gap-2 min-w-0"><Music size={16} className="shrink-0" /> <span className="truncate">{track.name}</span></span>
+                            <span className="flex items-center gap-2 shrink-0">
+                                <span className="text-xs text-gray-500">{Math.round(track.bpm)} BPM {formatDuration(track.duration)}</span>
+                                {selectedTrackId === track.id && <div className="w-2 h-2 bg-green-400 rounded-full"></div>}
+                            </span>
+                        </button>
+                        {track.source === 'user' && (
+                            <button
+                                onClick={() => onRemove(track.id)}
+                                className="px-3 rounded-lg border border-slate-700 bg-slate-800 text-gray-400 hover:text-red-400 hover:bg-slate-700 transition-all"
+                                title="Remove from library"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+
+                <button
+                    onClick={() => inputRef.current?.click()}
+                    disabled={isAnalysing}
+                    className="w-full py-2 px-3 rounded-lg border-2 border-dashed border-slate-700 text-sm text-gray-400 hover:border-blue-400 hover:text-white disabled:opacity-60 flex items-center justify-center gap-2 transition-all"
+                >
+                    {isAnalysing ? <><Loader2 size={16} className="animate-spin" /> Finding the beat...</> : <><Upload size={16} /> Add Your Own Song</>}
+                </button>
+                <input ref={inputRef} type="file" accept="audio/*" className="hidden" onChange={handleChange} />
+
+                {error && (
+                    <p className="text-sm text-red-300 flex items-center gap-2"><AlertTriangle size={14} /> {error}</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default MusicLibrary;
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Text } from '@react-three/drei';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { NoteData, COLORS, CutDirection, HandType, UiFonts } from '../types';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS, NOTE_BOX_SIZE, BOMB_BOX_SIZE, DIRECTION_VECTORS } from '../constants';
+import { EngineState, getNoteZ } from '../services/gameEngine';
+
+interface NoteFieldProps {
+  engineRef: React.MutableRefObject<EngineState>; // Draws its blocks and bombs still in play (Walls draws the walls)
+  timeRef: React.MutableRefObject<number>;        // Song time of the current frame
+  showDirection: boolean;
+  fonts: UiFonts;
+}
+
+const MAX_NOTES = 192; // On screen at once; the benchmark chart stays well under this
+const HANDS: HandType[] = ['left', 'right'];
+
+// Cone points +Y by default; roll it to face each cut direction
+const ARROW_ROTATION: Record<CutDirection, number> = {
+    [CutDirection.UP]: 0,
+    [CutDirection.DOWN]: Math.PI,
+    [CutDirection.LEFT]: Math.PI / 2,
+    [CutDirection.RIGHT]: -Math.PI / 2,
+    [CutDirection.ANY]: 0
+};
+
+// The same rounded block drei's RoundedBox builds, made once so every block can share it
+const createBlockGeometry = (size: THREE.Vector3, radius: number, smoothness: number) => {
+    const eps = 0.00001;
+    const r = radius - eps;
+    const shape = new THREE.Shape();
+    shape.absarc(eps, eps, eps, -Math.PI / 2, -Math.PI, true);
+    shape.absarc(eps, size.y - r * 2, eps, Math.PI, Math.PI / 2, true);
+    shape.absarc(size.x - r * 2, size.y - r * 2, eps, Math.PI / 2, 0, true);
+    shape.absarc(size.x - r * 2, eps, eps, 0, -Math.PI / 2, true);
+    const geometry = new THREE.ExtrudeGeometry(shape, {
+        depth: size.z - radius * 2,
+        bevelEnabled: true,
+        bevelSegments: smoothness * 2,
+        steps: 1,
+        bevelSize: radius - eps,
+        bevelThickness: radius,
+        curveSegments: smoothness
+    });
+    geometry.center();
+    return geometry;
+};
+
+// What gets changed in place on drei's <Text>, a troika-three-text mesh
+interface TroikaText {
+    text: string;
+    color: THREE.ColorRepresentation;
+    position: THREE.Vector3;
+    visible: boolean;
+    sync: () => void;
+}
+
+interface NoteMeshes {
+    bodies: Record<HandType, THREE.InstancedMesh>;
+    borders: Record<HandType, THREE.InstancedMesh>;
+    arrows: THREE.InstancedMesh;
+    dots: THREE.InstancedMesh; // Any swing direction is fine
+    bombs: THREE.InstancedMesh;
+}
+
+const createNoteMeshes = (): NoteMeshes => {
+    const instanced = (geometry: THREE.BufferGeometry, material: THREE.Material) => {
+        const mesh = new THREE.InstancedMesh(geometry, material, MAX_NOTES);
+        mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        mesh.frustumCulled = false; // The instances move every frame; the bounds would always be stale
+        mesh.count = 0;
+        return mesh;
+    };
+    const blockGeometry = createBlockGeometry(NOTE_BOX_SIZE, 0.1, 4);
+    const borderGeometry = new THREE.BoxGeometry(NOTE_BOX_SIZE.x + 0.1, NOTE_BOX_SIZE.y + 0.1, NOTE_BOX_SIZE.z - 0.1);
+    const markerMaterial = new THREE.MeshBasicMaterial({ color: 'white', toneMapped: false });
+    const byHand = (create: (color: string) => THREE.InstancedMesh) => ({ left: create(COLORS.left), right: create(COLORS.right) });
+
+    return {
+        // Dark faces keep the words readable; the glow says which hand cuts it
+        bodies: byHand(color => instanced(blockGeometry, new THREE.MeshStandardMaterial({ color: '#1f2937', emissive: color, emissiveIntensity: 0.2, roughness: 0.2, metalness: 0.8 }))),
+        borders: byHand(color => instanced(borderGeometry, new THREE.MeshBasicMaterial({ color, wireframe: true }))),
+        arrows: instanced(new THREE.ConeGeometry(0.14, 0.22, 3), markerMaterial),
+        dots: instanced(new THREE.SphereGeometry(0.07, 16, 16), markerMaterial),
+        // Spiky and glowing red: nothing like a block, so a misspelling is never cut by mistake
+        bombs: instanced(new THREE.IcosahedronGeometry(BOMB_BOX_SIZE.x / 2, 0), new THREE.MeshStandardMaterial({ color: '#111827', emissive: COLORS.wrong, emissiveIntensity: 0.6, roughness: 0.4, metalness: 0.6, flatShading: true }))
+    };
+};
+
+const disposeNoteMeshes = (meshes: NoteMeshes) => {
+    const all = [...HANDS.map(h => meshes.bodies[h]), ...HANDS.map(h => meshes.borders[h]), meshes.arrows, meshes.dots, meshes.bombs];
+    all.forEach(mesh => {
+        mesh.geometry.dispose();
+        (mesh.material as THREE.Material).dispose();
+        mesh.dispose();
+    });
+};
+
+const matrix = new THREE.Matrix4();
+const position = new THREE.Vector3();
+const rotation = new THREE.Quaternion();
+const euler = new THREE.Euler();
+const UNIT_SCALE = new THREE.Vector3(1, 1, 1);
+
+const BOMB_TEXT_COLOR = '#fca5a5';
+
+// Every block and bomb in play, drawn with a handful of instanced meshes and a fixed pool of SDF text, all updated
+// in place each frame: nothing here re-renders through React while a lesson runs.
+const NoteField: React.FC<NoteFieldProps> = ({ engineRef, timeRef, showDirection, fonts }) => {
+    const meshes = useMemo(createNoteMeshes, []);
+    useEffect(() => () => disposeNoteMeshes(meshes), [meshes]);
+
+    // Words: each block borrows a text slot while it's in play; troika shares one glyph atlas between them all
+    const textsRef = useRef<(TroikaText | null)[]>([]);
+    const slots = useMemo(() => ({
+        byNote: new Map<NoteData, number>(),
+        free: Array.from({ length: MAX_NOTES }, (_, i) => MAX_NOTES - 1 - i),
+        seenFrame: new Int32Array(MAX_NOTES),
+        frame: 0
+    }), []);
+
+    useFrame(() => {
+        const time = timeRef.current;
+        const counts = { left: 0, right: 0, arrows: 0, dots: 0, bombs: 0 };
+        slots.frame++;
+
+        for (const note of engineRef.current.active) {
+            if (note.hit || note.missed || note.kind === 'WALL' || counts.left + counts.right + counts.bombs >= MAX_NOTES) continue;
+            const isBomb = note.kind === 'BOMB';
+            const x = LANE_X_POSITIONS[note.lineIndex];
+            const y = LAYER_Y_POSITIONS[note.lineLayer];
+            const z = getNoteZ(note, time);
+
+            matrix.makeTranslation(x, y, z);
+            if (isBomb) {
+                meshes.bombs.setMatrixAt(counts.bombs++, matrix);
+            } else {
+                const index = counts[note.type]++;
+                meshes.bodies[note.type].setMatrixAt(index, matrix);
+                meshes.borders[note.type].setMatrixAt(index, matrix);
+            }
+
+            // Arrow sits just outside the block on the side the swing should exit
+            if (showDirection && !isBomb) {
+                if (note.cutDirection === CutDirection.ANY) {
+                    matrix.makeTranslation(x, y + 0.52, z + 0.1);
+                    meshes.dots.setMatrixAt(counts.dots++, matrix);
+                } else {
+                    const dir = DIRECTION_VECTORS[note.cutDirection];
+                    rotation.setFromEuler(euler.set(0, 0, ARROW_ROTATION[note.cutDirection]));
+                    matrix.compose(position.set(x + dir.x * 0.72, y + dir.y * 0.56, z + 0.1), rotation, UNIT_SCALE);
+                    meshes.arrows.setMatrixAt(counts.arrows++, matrix);
+                }
+            }
+
+            let slot = slots.byNote.get(note);
+            if (slot === undefined) {
+                if (slots.free.length === 0) continue;
+                slot = slots.free.pop()!;
+                slots.byNote.set(note, slot);
+                const text = textsRef.current[slot];
+                if (text) {
+                    text.text = note.text;
+                    text.color = isBomb ? BOMB_TEXT_COLOR : 'white';
+                    text.sync();
+                }
+            }
+            slots.seenFrame[slot] = slots.frame;
+            const text = textsRef.current[slot];
+            if (text) {
+                text.visible = true;
+                text.position.set(x, y, z + (isBomb ? BOMB_BOX_SIZE.z : NOTE_BOX_SIZE.z) / 2 + 0.01); // Slightly in front of the block
+            }
+        }
+
+        // Hand back the words of blocks and bombs that were cut, missed or cleared away
+        slots.byNote.forEach((slot, note) => {
+            if (slots.seenFrame[slot] === slots.frame) return;
+            slots.byNote.delete(note);
+            slots.free.push(slot);
+            if (textsRef.current[slot]) textsRef.current[slot].visible = false;
+        });
+
+        HANDS.forEach(hand => {
+            [meshes.bodies[hand], meshes.borders[hand]].forEach(mesh => {
+                mesh.count = counts[hand];
+                mesh.instanceMatrix.needsUpdate = true;
+            });
+        });
+        meshes.arrows.count = counts.arrows;
+        meshes.arrows.instanceMatrix.needsUpdate = true;
+        meshes.dots.count = counts.dots;
+        meshes.dots.instanceMatrix.needsUpdate = true;
+        meshes.bombs.count = counts.bombs;
+        meshes.bombs.instanceMatrix.needsUpdate = true;
+    });
+
+    return (
+        <>
+            {HANDS.map(hand => <primitive key={`body-${hand}`} object={meshes.bodies[hand]} />)}
+            {HANDS.map(hand => <primitive key={`border-${hand}`} object={meshes.borders[hand]} />)}
+            <primitive object={meshes.arrows} />
+            <primitive object={meshes.dots} />
+            <primitive object={meshes.bombs} />
+
+            {Array.from({ length: MAX_NOTES }, (_, i) => (
+                <Text
+                    key={i}
+                    ref={text => { textsRef.current[i] = text; }}
+                    visible={false}
+                    font={fonts.bold}
+                    fontSize={0.35} // Slightly smaller to fit longer words
+                    maxWidth={1.0} // Wrap text if too long
+                    lineHeight={1.1}
+                    color="white"
+                    anchorX="center"
+                    anchorY="middle"
+                    outlineWidth={0.02}
+                    outlineColor="black"
+                    textAlign="center"
+                />
+            ))}
+        </>
+    );
+};
+
+export default NoteField;
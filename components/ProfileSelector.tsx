@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useState } from 'react';
+import { LearnerProfile } from '../types';
+import { getProfileStats, formatPercent } from '../services/classReports';
+import { UserPlus, User, Flame, Presentation } from 'lucide-react';
+
+interface ProfileSelectorProps {
+    profiles: LearnerProfile[];
+    activeProfileId: string;
+    onSelect: (id: string) => void;
+    onAdd: (name: string) => void;
+    onOpenDashboard: () => void;
+}
+
+const ProfileSelector: React.FC<ProfileSelectorProps> = ({ profiles, activeProfileId, onSelect, onAdd, onOpenDashboard }) => {
+    const [newName, setNewName] = useState("");
+    const [isAdding, setIsAdding] = useState(false);
+
+    const active = profiles.find(p => p.id === activeProfileId) || profiles[0];
+    const stats = getProfileStats(active);
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newName.trim();
+        if (!name) return;
+        onAdd(name);
+        setNewName("");
+        setIsAdding(false);
+    };
+
+    return (
+        <div className="bg-white/5 p-4 rounded-xl mb-6 border border-white/10 text-left">
+            <div className="flex items-center justify-between mb-3">
+                <label className="text-gray-400 text-xs uppercase font-bold">Who's Playing?</label>
+                <button onClick={onOpenDashboard} className="text-xs text-blue-300 hover:text-white flex items-center gap-1 transition-colors">
+                    <Presentation size={14} /> Teacher View
+                </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {profiles.map(profile => (
+                    <button
+                        key={profile.id}
+                        onClick={() => onSelect(profile.id)}
+                        className={`py-2 px-4 rounded-full border text-sm flex items-center gap-2 transition-all ${profile.id === active.id ? 'bg-blue-600 border-blue-400 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-gray-400 hover:bg-slate-700'}`}
+                    >
+                        <User size={14} /> {profile.name}
+                    </button>
+                ))}
+
+                {isAdding ? (
+                    <form onSubmit={submit} className="flex gap-2">
+                        <input
+                            autoFocus
+                            value={newName}
+                            onChange={e => setNewName(e.target.value)}
+                            onBlur={() => !newName && setIsAdding(false)}
+                            placeholder="Student name"
+                            maxLength={32}
+                            className="bg-slate-800 border border-slate-700 rounded-full px-4 py-2 text-white text-sm focus:outline-none focus:border-blue-400"
+                        />
+                        <button type="submit" className="py-2 px-4 rounded-full bg-blue-600 text-white text-sm">Add</button>
+                    </form>
+                ) : (
+                    <button
+                        onClick={() => setIsAdding(true)}
+                        className="py-2 px-4 rounded-full border border-dashed border-slate-600 text-sm text-gray-400 hover:text-white hover:border-blue-400 flex items-center gap-2 transition-all"
+                    >
+                        <UserPlus size={14} /> New Student
+                    </button>
+                )}
+            </div>
+
+            {stats.lessons > 0 && (
+                <p className="text-xs text-gray-400 mt-3 flex flex-wrap gap-x-4 gap-y-1">
+                    <span>{stats.lessons} lesson{stats.lessons === 1 ? '' : 's'}</span>
+                    <span>Accuracy {formatPercent(stats.accuracy)}</span>
+                    <span>Best {stats.bestScore.toLocaleString()}</span>
+                    {stats.currentStreak > 0 && <span className="text-orange-300 flex items-center gap-1"><Flame size={12} /> {stats.currentStreak} day streak</span>}
+                    {stats.weakestTags.length > 0 && <span>Practise: {stats.weakestTags.map(t => t.tag).join(', ')}</span>}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ProfileSelector;
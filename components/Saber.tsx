@@ -8,76 +8,23 @@ import React, { useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { HandType, COLORS } from '../types';
+import { SABER_BLADE_START, SABER_BLADE_LENGTH } from '../constants';
+import { SaberPose } from '../services/saber';
 
 interface SaberProps {
   type: HandType;
-  positionRef: React.MutableRefObject<THREE.Vector3 | null>;
-  velocityRef: React.MutableRefObject<THREE.Vector3 | null>;
+  pose: SaberPose; // Updated by GameScene, which tests the same blade against the blocks
 }
 
-const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef }) => {
+const Saber: React.FC<SaberProps> = ({ type, pose }) => {
   const meshRef = useRef<THREE.Group>(null);
-  const saberLength = 1.0; 
+  const saberLength = SABER_BLADE_LENGTH;
 
-  // Reusable rotation objects to avoid GC in loop
-  const targetRotation = useRef(new THREE.Euler());
-  const currentRotation = useRef(new THREE.Euler());
-
-  useFrame((state, delta) => {
+  useFrame(() => {
     if (!meshRef.current) return;
-    
-    const targetPos = positionRef.current;
-    const velocity = velocityRef.current;
-
-    if (targetPos) {
-      meshRef.current.visible = true;
-      // Smooth movement
-      meshRef.current.position.lerp(targetPos, 0.5); // Snappy positioning
-      
-      // --- Dynamic Rotation ---
-      // Default 'ready' stance: pointed forward and slightly out
-      const restingX = -Math.PI / 3.5; // Tilted forward ~50 degrees
-      const restingY = 0;
-      // Left hand tilts slightly left (positive Z), right hand tilts slightly right (negative Z)
-      const restingZ = type === 'left' ? 0.2 : -0.2; 
-
-      let swayX = 0;
-      let swayY = 0;
-      let swayZ = 0;
-
-      if (velocity) {
-          // Influence rotation based on velocity to "lead" the swing
-          // Velocity Y (up/down) affects X rotation (pitch)
-          // Swinging DOWN (neg Y) -> Tilt MORE forward (more negative X rotation)
-          swayX = velocity.y * 0.05; 
-
-          // Velocity X (left/right) affects Z rotation (roll)
-          // Swinging RIGHT (pos X) -> Tilt RIGHT (negative Z rotation)
-          swayZ = -velocity.x * 0.05;
-
-          // Velocity Z (forward/back) affects X rotation slightly too
-          // Pushing FORWARD (neg Z) -> Tilt forward (negative X)
-          swayX += velocity.z * 0.02;
-      }
-
-      // Combine resting pose with sway
-      targetRotation.current.set(
-          restingX + swayX,
-          restingY + swayY,
-          restingZ + swayZ
-      );
-
-      // Smoothly interpolate current rotation towards target
-      // We use raw Euler interpolation here for simplicity and control over individual axes if needed,
-      // though Quaternion slerp is often cleaner for complex compound rotations.
-      // Given the constrained movement, this should feel okay.
-      meshRef.current.rotation.x = THREE.MathUtils.lerp(meshRef.current.rotation.x, targetRotation.current.x, 0.2);
-      meshRef.current.rotation.y = THREE.MathUtils.lerp(meshRef.current.rotation.y, targetRotation.current.y, 0.2);
-      meshRef.current.rotation.z = THREE.MathUtils.lerp(meshRef.current.rotation.z, targetRotation.current.z, 0.2);
-
-    } else {
-      meshRef.current.visible = false;
-    }
+    meshRef.current.visible = pose.active;
+    meshRef.current.position.copy(pose.position);
+    meshRef.current.rotation.copy(pose.rotation);
   });
 
   const color = type === 'left' ? COLORS.left : COLORS.right;
@@ -122,13 +69,13 @@ const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef }) => {
 
       {/* --- BLADE ASSEMBLY --- */}
       {/* Inner Core (Bright White) */}
-      <mesh position={[0, 0.05 + saberLength / 2, 0]}>
+      <mesh position={[0, SABER_BLADE_START + saberLength / 2, 0]}>
         <cylinderGeometry args={[0.008, 0.008, saberLength, 12]} />
         <meshBasicMaterial color="white" toneMapped={false} />
       </mesh>
 
       {/* Outer Glow (Colored) */}
-      <mesh position={[0, 0.05 + saberLength / 2, 0]}>
+      <mesh position={[0, SABER_BLADE_START + saberLength / 2, 0]}>
         <capsuleGeometry args={[0.02, saberLength, 16, 32]} />
         <meshStandardMaterial 
           color={color} 
@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo } from 'react';
+import { Text, RoundedBox } from '@react-three/drei';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { NoteData, COLORS, UiFonts } from '../types';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS, NOTE_BOX_SIZE, NOTE_SPEED } from '../constants';
+import { getNoteZ } from '../services/gameEngine';
+import { JUDGEMENT_COLORS } from '../services/scoring';
+
+interface SlicedNotesProps {
+  hitsRef: React.MutableRefObject<NoteData[]>; // Cut blocks waiting to be split (and bombs set off); drained every frame
+  fonts: UiFonts;
+}
+
+const POOL_SIZE = 6;              // Halves in flight at once; the oldest pair is recycled first
+const SLICE_LIFETIME = 0.8;       // Seconds before a pair is gone
+const FADE_TIME = 0.3;            // ...the last of which it spends fading out
+const SEPARATION_SPEED = 1.5;     // Each half is pushed off the cut plane at this speed
+const HAND_VELOCITY_SHARE = 0.4;  // Share of the swing the halves carry on with
+const GRAVITY = 9.8;
+const SPIN_SPEED = 6;             // rad/s, opposite ways for the two halves
+const LABEL_LIFETIME = 0.5;       // The judgement shrinks away over this long...
+const LABEL_RISE_SPEED = 3;       // ...floating up as it goes
+
+// What gets changed in place on drei's <Text>, a troika-three-text mesh
+interface TroikaText {
+  text: string;
+  color: THREE.ColorRepresentation;
+  fillOpacity: number;
+  outlineOpacity: number;
+  position: THREE.Vector3;
+  scale: THREE.Vector3;
+  visible: boolean;
+  sync: () => void;
+}
+
+interface SliceHalf {
+  group: THREE.Group | null;
+  text: TroikaText | null; // Updated in place
+  material: THREE.MeshStandardMaterial;
+  textMaterial: THREE.MeshBasicMaterial;
+  localPlane: THREE.Plane; // Cut plane in the block's own frame...
+  plane: THREE.Plane;      // ...and in the world, where three.js clips
+  velocity: THREE.Vector3;
+  spinAxis: THREE.Vector3;
+}
+
+interface SliceSlot {
+  halves: SliceHalf[];
+  label: TroikaText | null;
+  labelSpeed: number; // Track speed, so the judgement stays where the block was
+  age: number;
+}
+
+// Floating feedback: the cut's judgement for a clean correct answer, otherwise what went wrong
+const getHitLabel = (data: NoteData): { text: string, color: string } => {
+  if (data.kind === 'BOMB') return { text: "MISSPELT!", color: COLORS.wrong };
+  if (!data.isCorrect) return { text: "WRONG!", color: COLORS.wrong };
+  if (data.goodCut === false) return { text: "WRONG WAY!", color: COLORS.wrong };
+  if (data.cut) return { text: `${data.cut.judgement}!`, color: JUDGEMENT_COLORS[data.cut.judgement] };
+  return { text: "CORRECT!", color: COLORS.great };
+};
+
+const createHalf = (): SliceHalf => {
+  const plane = new THREE.Plane();
+  return {
+    group: null,
+    text: null,
+    material: new THREE.MeshStandardMaterial({ color: '#1f2937', roughness: 0.2, metalness: 0.8, transparent: true, side: THREE.DoubleSide, clippingPlanes: [plane] }),
+    textMaterial: new THREE.MeshBasicMaterial({ clippingPlanes: [plane] }),
+    localPlane: new THREE.Plane(),
+    plane,
+    velocity: new THREE.Vector3(),
+    spinAxis: new THREE.Vector3()
+  };
+};
+
+const centre = new THREE.Vector3();
+const localPoint = new THREE.Vector3();
+const FORWARD = new THREE.Vector3(0, 0, 1);
+
+// Split a cut block into its two halves along the plane the blade actually went through
+const spawnSlice = (slot: SliceSlot, note: NoteData) => {
+  const slice = note.slice!;
+  centre.set(LANE_X_POSITIONS[note.lineIndex], LAYER_Y_POSITIONS[note.lineLayer], getNoteZ(note, note.hitTime || 0));
+  localPoint.subVectors(slice.point, centre);
+  slot.age = 0;
+  slot.labelSpeed = note.speed || NOTE_SPEED;
+
+  if (slot.label) {
+    const label = getHitLabel(note);
+    slot.label.text = label.text;
+    slot.label.color = label.color;
+    slot.label.sync();
+    slot.label.position.set(centre.x, centre.y + 0.5, centre.z);
+    slot.label.scale.setScalar(1);
+    slot.label.visible = true;
+  }
+
+  // A bomb just goes off: only its label is left
+  if (note.kind === 'BOMB') {
+    slot.halves.forEach(half => {
+      if (half.group) half.group.visible = false;
+    });
+    return;
+  }
+
+  slot.halves.forEach((half, i) => {
+    const side = i === 0 ? 1 : -1;
+    half.localPlane.normal.copy(slice.normal).multiplyScalar(side);
+    half.localPlane.constant = -half.localPlane.normal.dot(localPoint);
+
+    // Off the cut plane, along with the swing, and still travelling down the track
+    half.velocity.copy(slice.velocity).multiplyScalar(HAND_VELOCITY_SHARE)
+      .addScaledVector(half.localPlane.normal, SEPARATION_SPEED);
+    half.velocity.z += note.speed || NOTE_SPEED;
+    half.spinAxis.crossVectors(slice.normal, slice.velocity.lengthSq() > 1e-6 ? slice.velocity : FORWARD).normalize();
+    if (half.spinAxis.lengthSq() === 0) half.spinAxis.set(1, 0, 0);
+
+    half.material.emissive.set(note.type === 'left' ? COLORS.left : COLORS.right);
+    half.material.emissiveIntensity = 0.2;
+    half.material.opacity = 1;
+
+    if (half.text) {
+      half.text.text = note.text;
+      half.text.fillOpacity = 1;
+      half.text.outlineOpacity = 1;
+      half.text.sync();
+    }
+    if (half.group) {
+      half.group.position.copy(centre);
+      half.group.quaternion.identity();
+      half.group.visible = true;
+    }
+  });
+};
+
+// Cut blocks, split in two and flying apart under their judgement. Everything is allocated once up front and reused.
+const SlicedNotes: React.FC<SlicedNotesProps> = ({ hitsRef, fonts }) => {
+  const { gl } = useThree();
+  const pool = useMemo<SliceSlot[]>(() => Array.from({ length: POOL_SIZE }, () => ({
+    halves: [createHalf(), createHalf()],
+    label: null,
+    labelSpeed: 0,
+    age: Infinity
+  })), []);
+  const nextSlot = useMemo(() => ({ index: 0 }), []);
+
+  // Clipping planes on individual materials are off by default
+  useEffect(() => {
+    gl.localClippingEnabled = true;
+  }, [gl]);
+
+  useEffect(() => () => pool.forEach(slot => slot.halves.forEach(half => {
+    half.material.dispose();
+    half.textMaterial.dispose();
+  })), [pool]);
+
+  useFrame((state, delta) => {
+    const hits = hitsRef.current;
+    while (hits.length > 0) {
+      const note = hits.shift()!;
+      if (!note.slice) continue;
+      spawnSlice(pool[nextSlot.index], note);
+      nextSlot.index = (nextSlot.index + 1) % POOL_SIZE;
+    }
+
+    pool.forEach(slot => {
+      if (slot.age >= SLICE_LIFETIME) return;
+      slot.age += delta;
+      const done = slot.age >= SLICE_LIFETIME;
+      const opacity = Math.min(1, (SLICE_LIFETIME - slot.age) / FADE_TIME);
+
+      if (slot.label) {
+        slot.label.visible = slot.age < LABEL_LIFETIME;
+        slot.label.scale.setScalar(Math.max(0.01, 1 - slot.age / LABEL_LIFETIME));
+        slot.label.position.y += LABEL_RISE_SPEED * delta;
+        slot.label.position.z += slot.labelSpeed * delta;
+      }
+
+      slot.halves.forEach((half, i) => {
+        if (!half.group) return;
+        if (done) {
+          half.group.visible = false;
+          return;
+        }
+        half.velocity.y -= GRAVITY * delta;
+        half.group.position.addScaledVector(half.velocity, delta);
+        half.group.rotateOnWorldAxis(half.spinAxis, (i === 0 ? SPIN_SPEED : -SPIN_SPEED) * delta);
+        half.group.updateMatrixWorld();
+        half.plane.copy(half.localPlane).applyMatrix4(half.group.matrixWorld);
+
+        half.material.opacity = opacity;
+        if (half.text) {
+          half.text.fillOpacity = opacity;
+          half.text.outlineOpacity = opacity;
+        }
+      });
+    });
+  });
+
+  return (
+    <>
+      {pool.map((slot, s) => (
+        <Text
+          key={`label-${s}`}
+          ref={text => { slot.label = text; }}
+          visible={false}
+          font={fonts.bold}
+          fontSize={0.5}
+          anchorX="center"
+          anchorY="middle"
+        />
+      ))}
+      {pool.map((slot, s) => slot.halves.map((half, h) => (
+        <group key={`${s}-${h}`} ref={group => { half.group = group; }} visible={false}>
+          <RoundedBox args={[NOTE_BOX_SIZE.x, NOTE_BOX_SIZE.y, NOTE_BOX_SIZE.z]} radius={0.1} smoothness={4}>
+            <primitive object={half.material} attach="material" />
+          </RoundedBox>
+          <Text
+            ref={text => { half.text = text; }}
+            position={[0, 0, NOTE_BOX_SIZE.z / 2 + 0.01]}
+            font={fonts.bold}
+            material={half.textMaterial}
+            fontSize={0.35}
+            maxWidth={1.0}
+            lineHeight={1.1}
+            color="white"
+            anchorX="center"
+            anchorY="middle"
+            outlineWidth={0.02}
+            outlineColor="black"
+            textAlign="center"
+          />
+        </group>
+      )))}
+    </>
+  );
+};
+
+export default SlicedNotes;
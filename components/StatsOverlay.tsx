@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useState } from 'react';
+import { DetectionStats } from '../types';
+import { MAX_DETECTION_FPS } from '../constants';
+
+interface StatsOverlayProps {
+    statsRef?: React.MutableRefObject<DetectionStats>; // Hand detection; without it only the render rate shows
+}
+
+const REFRESH_INTERVAL = 500; // ms; the numbers are averages, so there's no point redrawing every frame
+
+const StatsOverlay: React.FC<StatsOverlayProps> = ({ statsRef }) => {
+    const [renderFps, setRenderFps] = useState(0);
+    const [stats, setStats] = useState<DetectionStats | null>(statsRef ? statsRef.current : null);
+
+    useEffect(() => {
+        let frameId = 0;
+        let frames = 0;
+        let windowStart = performance.now();
+
+        // Counted on requestAnimationFrame, which paces the 3D scene too
+        const countFrame = () => {
+            frames++;
+            frameId = requestAnimationFrame(countFrame);
+        };
+        frameId = requestAnimationFrame(countFrame);
+
+        const refresh = window.setInterval(() => {
+            const now = performance.now();
+            setRenderFps(frames * 1000 / (now - windowStart));
+            setStats(statsRef ? { ...statsRef.current } : null);
+            frames = 0;
+            windowStart = now;
+        }, REFRESH_INTERVAL);
+
+        return () => {
+            cancelAnimationFrame(frameId);
+            window.clearInterval(refresh);
+        };
+    }, [statsRef]);
+
+    // Detection well below its cap means the device is struggling
+    const isDetectionSlow = !!stats && stats.detectionFps > 0 && stats.detectionFps < MAX_DETECTION_FPS * 0.6;
+
+    return (
+        <div className="fixed bottom-4 left-4 z-50 pointer-events-none bg-black/60 border border-white/10 rounded-lg px-3 py-2 font-mono text-xs text-gray-300 space-y-0.5">
+            <p>Render <span className="text-white font-bold">{renderFps.toFixed(0)}</span> fps</p>
+            {stats && (
+                <>
+                    <p>Detection <span className={`font-bold ${isDetectionSlow ? 'text-yellow-300' : 'text-white'}`}>{stats.detectionFps.toFixed(0)}</span> fps</p>
+                    <p>Inference <span className="text-white font-bold">{stats.inferenceMs.toFixed(1)}</span> ms</p>
+                    <p className="text-gray-500">{stats.inWorker ? "Worker thread" : "Main thread"}{stats.delegate && `, ${stats.delegate}`}</p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default StatsOverlay;
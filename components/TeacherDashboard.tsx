@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { LearnerProfile } from '../types';
+import { getProfileStats, getClassTagAccuracy, buildClassReportCsv, buildClassReportJson, formatPercent } from '../services/classReports';
+import { downloadFile } from '../services/download';
+import { Presentation, X, Download, Trash2, Flame } from 'lucide-react';
+
+interface TeacherDashboardProps {
+    profiles: LearnerProfile[];
+    onRemove: (id: string) => void;
+    onClose: () => void;
+}
+
+const exportButtonClass = "py-2 px-4 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 text-white text-sm flex items-center gap-2 transition-colors";
+
+const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ profiles, onRemove, onClose }) => {
+    const classTags = getClassTagAccuracy(profiles);
+    const dateStamp = new Date().toISOString().slice(0, 10);
+
+    const confirmRemove = (profile: LearnerProfile) => {
+        if (window.confirm(`Delete ${profile.name} and all of their progress? This cannot be undone.`)) {
+            onRemove(profile.id);
+        }
+    };
+
+    return (
+        <div className="bg-slate-900/95 p-8 rounded-3xl border-2 border-blue-500/30 backdrop-blur-xl max-w-5xl w-full shadow-2xl overflow-y-auto max-h-screen text-left">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-3xl font-black text-white flex items-center gap-3">
+                    <Presentation className="w-8 h-8 text-blue-400" /> TEACHER <span className="text-blue-500">VIEW</span>
+                </h2>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => downloadFile(`class-report-${dateStamp}.csv`, buildClassReportCsv(profiles), 'text/csv')} className={exportButtonClass}>
+                        <Download size={16} /> CSV
+                    </button>
+                    <button onClick={() => downloadFile(`class-report-${dateStamp}.json`, buildClassReportJson(profiles))} className={exportButtonClass}>
+                        <Download size={16} /> JSON
+                    </button>
+                    <button onClick={onClose} className="p-2 rounded-lg border border-slate-700 bg-slate-800 text-gray-300 hover:bg-slate-700 transition-all" title="Back to menu">
+                        <X size={20} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Students */}
+            <div className="bg-white/5 border border-white/10 rounded-xl overflow-x-auto mb-6">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-gray-400 text-xs uppercase border-b border-white/10">
+                            <th className="text-left p-3">Student</th>
+                            <th className="text-right p-3">Lessons</th>
+                            <th className="text-right p-3">Accuracy</th>
+                            <th className="text-right p-3">Best Score</th>
+                            <th className="text-right p-3">Streak</th>
+                            <th className="text-left p-3">Weakest Tags</th>
+                            <th className="text-left p-3">Last Played</th>
+                            <th className="p-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                        {profiles.map(profile => {
+                            const stats = getProfileStats(profile);
+                            return (
+                                <tr key={profile.id} className="text-gray-200">
+                                    <td className="p-3 font-bold text-white">{profile.name}</td>
+                                    <td className="p-3 text-right">{stats.lessons}</td>
+                                    <td className="p-3 text-right">{formatPercent(stats.accuracy)}</td>
+                                    <td className="p-3 text-right">{stats.bestScore.toLocaleString()}</td>
+                                    <td className="p-3 text-right">
+                                        {stats.currentStreak > 0 ? <span className="text-orange-300 inline-flex items-center gap-1"><Flame size={12} /> {stats.currentStreak}</span> : '–'}
+                                    </td>
+                                    <td className="p-3 text-gray-400">{stats.weakestTags.map(t => t.tag).join(', ') || '–'}</td>
+                                    <td className="p-3 text-gray-400">{stats.lastPlayed ? new Date(stats.lastPlayed).toLocaleDateString() : 'Never'}</td>
+                                    <td className="p-3 text-right">
+                                        {profiles.length > 1 && (
+                                            <button onClick={() => confirmRemove(profile)} className="text-gray-500 hover:text-red-400 transition-colors" title="Delete student">
+                                                <Trash2 size={16} />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Whole class, weakest categories first */}
+            <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+                <h3 className="text-white font-bold border-b border-white/10 pb-2 mb-3">Class Accuracy by Category</h3>
+                {classTags.length === 0 ? (
+                    <p className="text-gray-400 text-sm">No lessons played yet.</p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+                        {classTags.map(({ tag, correct, total }) => {
+                            const pct = Math.round((correct / total) * 100);
+                            return (
+                                <div key={tag}>
+                                    <div className="flex justify-between text-xs text-gray-300 mb-1">
+                                        <span>{tag}</span>
+                                        <span>{pct}% ({correct}/{total})</span>
+                                    </div>
+                                    <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                                        <div
+                                            className={`h-full ${pct >= 80 ? 'bg-green-500' : pct >= 50 ? 'bg-yellow-500' : 'bg-red-600'}`}
+                                            style={{ width: `${pct}%` }}
+                                        />
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TeacherDashboard;
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { WallDodge } from '../types';
+import { WALL_DEPTH } from '../constants';
+import { EngineState, getNoteZ } from '../services/gameEngine';
+
+interface WallsProps {
+  engineRef: React.MutableRefObject<EngineState>; // Draws its walls still in play
+  timeRef: React.MutableRefObject<number>;        // Song time of the current frame
+}
+
+const MAX_WALLS = 16;
+const WALL_COLOR = '#f43f5e';
+
+// Where each wall stands (centre and size, world units): the gap it leaves is where the head has to go
+const WALL_SHAPES: Record<WallDodge, { x: number; y: number; width: number; height: number }> = {
+  LEAN_LEFT: { x: 1.05, y: 1.7, width: 2.7, height: 3.4 },   // Fills the middle and right
+  LEAN_RIGHT: { x: -1.05, y: 1.7, width: 2.7, height: 3.4 }, // Fills the middle and left
+  DUCK: { x: 0, y: 2.5, width: 4.5, height: 1.8 }            // Overhead, down to just below standing head height
+};
+
+const createWallMeshes = () => {
+  const geometry = new THREE.BoxGeometry(1, 1, 1);
+  const instanced = (material: THREE.Material) => {
+    const mesh = new THREE.InstancedMesh(geometry, material, MAX_WALLS);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.frustumCulled = false;
+    mesh.count = 0;
+    return mesh;
+  };
+  return {
+    faces: instanced(new THREE.MeshStandardMaterial({ color: WALL_COLOR, emissive: WALL_COLOR, emissiveIntensity: 0.4, transparent: true, opacity: 0.25, depthWrite: false, side: THREE.DoubleSide })),
+    edges: instanced(new THREE.MeshBasicMaterial({ color: WALL_COLOR, wireframe: true }))
+  };
+};
+
+const matrix = new THREE.Matrix4();
+const position = new THREE.Vector3();
+const scale = new THREE.Vector3();
+const NO_ROTATION = new THREE.Quaternion();
+
+// Translucent walls to lean or duck out of the way of, instanced like the blocks
+const Walls: React.FC<WallsProps> = ({ engineRef, timeRef }) => {
+  const meshes = useMemo(createWallMeshes, []);
+  useEffect(() => () => {
+    meshes.faces.geometry.dispose();
+    [meshes.faces, meshes.edges].forEach(mesh => {
+      (mesh.material as THREE.Material).dispose();
+      mesh.dispose();
+    });
+  }, [meshes]);
+
+  useFrame(() => {
+    let count = 0;
+    for (const note of engineRef.current.active) {
+      if (note.kind !== 'WALL' || note.hit || note.missed || count >= MAX_WALLS) continue;
+      const shape = WALL_SHAPES[note.dodge || 'DUCK'];
+      matrix.compose(
+        position.set(shape.x, shape.y, getNoteZ(note, timeRef.current)),
+        NO_ROTATION,
+        scale.set(shape.width, shape.height, WALL_DEPTH)
+      );
+      meshes.faces.setMatrixAt(count, matrix);
+      meshes.edges.setMatrixAt(count, matrix);
+      count++;
+    }
+    [meshes.faces, meshes.edges].forEach(mesh => {
+      mesh.count = count;
+      mesh.instanceMatrix.needsUpdate = true;
+    });
+  });
+
+  return (
+    <>
+      <primitive object={meshes.faces} />
+      <primitive object={meshes.edges} />
+    </>
+  );
+};
+
+export default Walls;
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { TrackedHands, updateTrackedHand } from '../services/handTracking';
+
+interface XRControllersProps {
+    session: XRSession | null;
+    handPositionsRef: React.MutableRefObject<TrackedHands>;
+    instruction: string; // The HTML HUD can't be seen in a headset, so it is repeated in the scene
+    font?: string;
+}
+
+// Hands the VR session to the renderer and feeds both motion controllers into the saber positions
+const XRControllers: React.FC<XRControllersProps> = ({ session, handPositionsRef, instruction, font }) => {
+    const gl = useThree(state => state.gl);
+    const [isPresenting, setIsPresenting] = useState(false);
+    const handednessRef = useRef<(XRHandedness | null)[]>([null, null]);
+    const tmpPos = useRef(new THREE.Vector3());
+
+    useEffect(() => {
+        if (!session) return;
+        let isActive = true;
+
+        gl.xr.enabled = true;
+        gl.xr.setReferenceSpaceType('local-floor');
+
+        // Controllers report which hand they are in when they connect
+        const controllers = [0, 1].map(i => gl.xr.getController(i));
+        const listeners = controllers.map((controller, i) => {
+            const onConnected = (e: THREE.Event<'connected', THREE.XRTargetRaySpace> & { data: XRInputSource }) => { handednessRef.current[i] = e.data.handedness; };
+            const onDisconnected = () => { handednessRef.current[i] = null; };
+            controller.addEventListener('connected', onConnected);
+            controller.addEventListener('disconnected', onDisconnected);
+            return { onConnected, onDisconnected };
+        });
+
+        gl.xr.setSession(session)
+            .then(() => { if (isActive) setIsPresenting(true); })
+            .catch(e => console.error("Could not attach VR session", e));
+
+        return () => {
+            isActive = false;
+            controllers.forEach((controller, i) => {
+                controller.removeEventListener('connected', listeners[i].onConnected);
+                controller.removeEventListener('disconnected', listeners[i].onDisconnected);
+            });
+            handednessRef.current = [null, null];
+            setIsPresenting(false);
+            gl.xr.enabled = false;
+        };
+    }, [session, gl]);
+
+    useFrame((state, delta) => {
+        if (!isPresenting) return;
+        const s = handPositionsRef.current;
+        const positions: { left: THREE.Vector3 | null; right: THREE.Vector3 | null } = { left: null, right: null };
+
+        handednessRef.current.forEach((handedness, i) => {
+            if (handedness !== 'left' && handedness !== 'right') return;
+            gl.xr.getController(i).getWorldPosition(tmpPos.current);
+            positions[handedness] = tmpPos.current.clone();
+        });
+
+        updateTrackedHand(s, 'left', positions.left, delta);
+        updateTrackedHand(s, 'right', positions.right, delta);
+    });
+
+    if (!isPresenting) return null;
+
+    return (
+        <Text position={[0, 3.4, -6]} font={font} fontSize={0.35} maxWidth={6} textAlign="center" color="white" outlineWidth={0.02} outlineColor="#0f172a">
+            {instruction}
+        </Text>
+    );
+};
+
+export default XRControllers;
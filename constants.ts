@@ -5,7 +5,7 @@
 */
 
 
-import { CutDirection, NoteData } from "./types";
+import { CurriculumPack, CutDirection, DifficultyParams, DifficultyPreset, HandCalibration, HandFilterSettings, MusicTrack, NoteData, QuestionSet, TrackingPreset, WallDodge } from "./types";
 import * as THREE from 'three';
 
 // Game World Config
@@ -15,6 +15,80 @@ export const PLAYER_Z = 0;
 export const MISS_Z = 5;
 export const NOTE_SPEED = 8; // Slower speed to allow reading text
 
+// Difficulty Presets (Adaptive slides between EASY and HARD during a run)
+export const DIFFICULTY_PRESETS: Record<Exclude<DifficultyPreset, 'ADAPTIVE'>, DifficultyParams> = {
+  EASY: { noteSpeed: 6, distractors: 1, spread: 0, questionGap: 5.5, directionLevel: 0 },
+  NORMAL: { noteSpeed: NOTE_SPEED, distractors: 2, spread: 0.5, questionGap: 4.3, directionLevel: 1 },
+  HARD: { noteSpeed: 11, distractors: 3, spread: 1, questionGap: 3.2, directionLevel: 2 }
+};
+
+// Cut Grading
+export const MIN_SWING_SPEED = 0.5; // Below this a touch is ignored rather than counted
+export const FULL_SWING_SPEED = 4;  // Swing speed that earns full marks
+export const TIMING_WINDOW = 0.2;   // Seconds off-beat at which timing marks reach zero
+export const BASE_NOTE_SCORE = 100;
+
+// Hit Detection
+export const NOTE_BOX_SIZE = new THREE.Vector3(1.1, 0.8, 0.5); // The block a blade has to pass through
+export const SABER_BLADE_START = 0.05; // Blade segment along the saber, from the hilt
+export const SABER_BLADE_LENGTH = 1.0;
+export const SABER_HIT_RADIUS = 0.1;   // Allowance around the blade, a little wider than its glow
+export const HIT_ZONE_BEFORE = 1.5; // Blocks can be cut this far in front of the player...
+export const HIT_ZONE_AFTER = 1.0;  // ...and this far behind
+export const BOMB_BOX_SIZE = new THREE.Vector3(0.8, 0.8, 0.8); // Touching it anywhere, at any speed, sets it off
+
+// Walls: the head has to be out of the way while one passes through the player
+export const WALL_DEPTH = 1.0;
+export const WALL_LEAN_DISTANCE = 0.4; // Sideways from where the student usually stands
+export const WALL_DUCK_DEPTH = 0.35;   // Below their usual head height
+export const WALL_EVERY_QUESTIONS = 2; // A wall between every this many questions
+export const WALL_INSTRUCTIONS: Record<WallDodge, string> = {
+  LEAN_LEFT: "Lean left!",
+  LEAN_RIGHT: "Lean right!",
+  DUCK: "Duck!"
+};
+
+// Health & Combo
+export const MAX_HEALTH = 100;
+export const HEALTH_GAIN_CORRECT = 5;
+export const HEALTH_LOSS_WRONG_HIT = 10;
+export const HEALTH_LOSS_MISSED_ANSWER = 15;
+export const HEALTH_LOSS_BOMB = 15;
+export const HEALTH_LOSS_WALL = 10;
+export const COMBO_MULTIPLIER_STEPS = [{ combo: 10, multiplier: 4 }, { combo: 5, multiplier: 2 }]; // Combo above `combo` earns `multiplier`
+
+// Hand Tracking: the mapping used until a student calibrates
+export const DEFAULT_CALIBRATION: HandCalibration = {
+  xRange: 5,
+  yRange: 3.5,
+  xOffset: 0,
+  yOffset: 0.8,
+  mirrored: true,
+  dominantHand: 'right'
+};
+
+// Hand Tracking: filter presets, from smoothest to quickest
+export const TRACKING_PRESETS: Record<TrackingPreset, HandFilterSettings> = {
+  STEADY: { minCutoff: 0.8, beta: 0.3, derivativeCutoff: 1, velocityWindow: 0.12, dropoutBridge: 0.25, handednessFrames: 6 },
+  BALANCED: { minCutoff: 1.5, beta: 0.6, derivativeCutoff: 1, velocityWindow: 0.08, dropoutBridge: 0.15, handednessFrames: 4 },
+  RESPONSIVE: { minCutoff: 3, beta: 1.2, derivativeCutoff: 1.5, velocityWindow: 0.05, dropoutBridge: 0.1, handednessFrames: 2 }
+};
+export const DEFAULT_TRACKING_PRESET: TrackingPreset = 'BALANCED';
+export const MAX_DETECTION_FPS = 30; // Hand detection runs at its own rate, independent of rendering
+
+// Self-hosted assets (served by vite.config.ts or downloaded by scripts/fetch-assets.mjs).
+// Each list is tried in order, so a deployment without them still works online from the public CDNs.
+export const MEDIAPIPE_WASM_PATHS = ["/mediapipe/wasm", "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"];
+export const HAND_MODEL_PATHS = ["/models/hand_landmarker.task", "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task"];
+export const POSE_MODEL_PATHS = ["/models/pose_landmarker_lite.task", "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task"]; // Head tracking for walls
+export const UI_FONT_PATHS = { regular: "/fonts/roboto-regular.woff", bold: "/fonts/roboto-bold.woff" }; // 3D text; without them it loads from a CDN
+export const ENVIRONMENT_MAP_PATHS = ["/hdri/potsdamer_platz_1k.hdr", "https://raw.githack.com/pmndrs/drei-assets/456060a26bbeb8fdf79326f224b6d99b8bcce736/hdri/potsdamer_platz_1k.hdr"]; // Scene reflections; skipped if neither loads
+
+// Directional Mode
+export const DEFAULT_DIRECTION_TOLERANCE = 60; // Degrees either side of the arrow that still count
+export const MIN_DIRECTION_TOLERANCE = 30;
+export const MAX_DIRECTION_TOLERANCE = 90;
+
 export const LANE_WIDTH = 1.2; // Wider lanes for text visibility
 export const LAYER_HEIGHT = 0.8;
 export const NOTE_SIZE = 0.6;
@@ -24,94 +98,266 @@ export const LANE_X_POSITIONS = [-1.5 * LANE_WIDTH, -0.5 * LANE_WIDTH, 0.5 * LAN
 export const LAYER_Y_POSITIONS = [1.0, 1.8, 2.6]; // Low, Mid, High
 
 // Audio Options
-export const MUSIC_TRACKS = [
-  { name: "Neon Racer", url: "https://commondatastorage.googleapis.com/codeskulptor-demos/riceracer_assets/music/race2.ogg", bpm: 140 },
-  { name: "Chill Step", url: "https://commondatastorage.googleapis.com/codeskulptor-demos/pyman_assets/ateapill.ogg", bpm: 110 },
-  { name: "Electro Pop", url: "https://commondatastorage.googleapis.com/codeskulptor-assets/Epoq-Lepidoptera.ogg", bpm: 130 }
+export const MUSIC_TRACKS: MusicTrack[] = [
+  { id: "builtin-neon-racer", source: "builtin", name: "Neon Racer", url: "/music/neon-racer.ogg", fallbackUrl: "https://commondatastorage.googleapis.com/codeskulptor-demos/riceracer_assets/music/race2.ogg", bpm: 140, offset: 0 },
+  { id: "builtin-chill-step", source: "builtin", name: "Chill Step", url: "/music/chill-step.ogg", fallbackUrl: "https://commondatastorage.googleapis.com/codeskulptor-demos/pyman_assets/ateapill.ogg", bpm: 110, offset: 0 },
+  { id: "builtin-electro-pop", source: "builtin", name: "Electro Pop", url: "/music/electro-pop.ogg", fallbackUrl: "https://commondatastorage.googleapis.com/codeskulptor-assets/Epoq-Lepidoptera.ogg", bpm: 130, offset: 0 }
 ];
 
 export const SONG_BPM = 140; // Default fallback
-const BEAT_TIME = 60 / SONG_BPM;
 
-interface QuestionSet {
-  instruction: string;
-  correct: string;
-  distractors: string[];
-}
+// Chart Timing
+export const BEATS_PER_BAR = 4;
+export const LEAD_IN_BEATS = 8; // Two bars to get ready
+export const SONG_END_MARGIN = 2; // Don't start a question this close to the end of the song
+export const LESSON_QUESTION_COUNT = 15;
+
+export const getBeatTime = (bpm: number = SONG_BPM): number => 60 / (bpm > 0 ? bpm : SONG_BPM);
+
+// Keep roughly the requested reading time at any tempo, but always land on a bar line
+export const getQuestionGapBeats = (beatTime: number, gapSeconds: number): number =>
+  Math.max(BEATS_PER_BAR, Math.round(gapSeconds / beatTime / BEATS_PER_BAR) * BEATS_PER_BAR);
+
+// Where we are inside the current beat (0 = on the beat, approaching 1 = just before the next)
+export const getBeatPhase = (time: number, bpm: number = SONG_BPM, offset: number = 0): number => {
+  const beatTime = getBeatTime(bpm);
+  const phase = ((time - offset) % beatTime) / beatTime;
+  return phase < 0 ? phase + 1 : phase;
+};
+
+// Curriculum Pack Format
+export const CURRICULUM_FORMAT = "conjugation-dojo/curriculum";
+export const CURRICULUM_VERSION = 1;
+
+// Session Recording Format (hand-tracking replays)
+export const RECORDING_FORMAT = "conjugation-dojo/recording";
+export const RECORDING_VERSION = 1;
 
 // Expanded Curriculum with Phrases
-const PHRASE_CURRICULUM: QuestionSet[] = [
-  { instruction: "Yesterday, I ___ to the store.", correct: "WENT", distractors: ["GO", "GONE", "GOING"] },
-  { instruction: "She ___ a beautiful song.", correct: "SANG", distractors: ["SING", "SUNG", "SINGED"] },
-  { instruction: "We have ___ the game!", correct: "WON", distractors: ["WIN", "WINNED", "WAN"] },
-  { instruction: "The sun ___ in the East.", correct: "RISES", distractors: ["ROSE", "RISE", "RISING"] },
-  { instruction: "I am ___ a book right now.", correct: "READING", distractors: ["READ", "READS", "RED"] },
-  { instruction: "They ___ pizza last night.", correct: "ATE", distractors: ["EAT", "EATED", "EATING"] },
-  { instruction: "He ___ his keys yesterday.", correct: "LOST", distractors: ["LOSE", "LOSES", "LOSED"] },
-  { instruction: "My dog ___ very fast.", correct: "RUNS", distractors: ["RUN", "RAN", "RUNNING"] },
-  { instruction: "We ___ happy to see you.", correct: "ARE", distractors: ["IS", "AM", "BE"] },
-  { instruction: "She ___ English well.", correct: "SPEAKS", distractors: ["SPEAK", "SPOKE", "SPOKEN"] },
-  { instruction: "I ___ my homework already.", correct: "DID", distractors: ["DO", "DONE", "DOES"] },
-  { instruction: "It ___ heavily last winter.", correct: "SNOWED", distractors: ["SNOW", "SNOWS", "SNOWING"] },
-  { instruction: "Opposite of: HAPPY", correct: "SAD", distractors: ["GLAD", "JOY", "FUN"] },
-  { instruction: "Plural of: CHILD", correct: "CHILDREN", distractors: ["CHILDS", "KIDS", "BABY"] },
-  { instruction: "Past of: BUY", correct: "BOUGHT", distractors: ["BUYED", "BUYS", "BUYING"] }
-];
+export const BUILTIN_CURRICULUM: CurriculumPack = {
+  format: CURRICULUM_FORMAT,
+  version: CURRICULUM_VERSION,
+  id: "builtin-phrases",
+  title: "Everyday Verbs & Phrases",
+  locale: "en",
+  items: [
+    { id: "builtin-1", instruction: "Yesterday, I ___ to the store.", correct: "WENT", distractors: ["GO", "GONE", "GOING"], tags: ["past-simple", "irregular"], level: "A1", misspellings: ["WENNT", "WHENT"] },
+    { id: "builtin-2", instruction: "She ___ a beautiful song.", correct: "SANG", distractors: ["SING", "SUNG", "SINGED"], tags: ["past-simple", "irregular"], level: "A2", misspellings: ["SAGN", "SANGE"] },
+    { id: "builtin-3", instruction: "We have ___ the game!", correct: "WON", distractors: ["WIN", "WINNED", "WAN"], tags: ["present-perfect", "irregular"], level: "A2", misspellings: ["WONN", "WUN"] },
+    { id: "builtin-4", instruction: "The sun ___ in the East.", correct: "RISES", distractors: ["ROSE", "RISE", "RISING"], tags: ["present-simple"], level: "A1", misspellings: ["RISSES", "RIZES"] },
+    { id: "builtin-5", instruction: "I am ___ a book right now.", correct: "READING", distractors: ["READ", "READS", "RED"], tags: ["present-continuous"], level: "A1", misspellings: ["REEDING", "REDING"] },
+    { id: "builtin-6", instruction: "They ___ pizza last night.", correct: "ATE", distractors: ["EAT", "EATED", "EATING"], tags: ["past-simple", "irregular"], level: "A1", misspellings: ["ATTE", "AET"] },
+    { id: "builtin-7", instruction: "He ___ his keys yesterday.", correct: "LOST", distractors: ["LOSE", "LOSES", "LOSED"], tags: ["past-simple", "irregular"], level: "A2", misspellings: ["LOSST", "LOOST"] },
+    { id: "builtin-8", instruction: "My dog ___ very fast.", correct: "RUNS", distractors: ["RUN", "RAN", "RUNNING"], tags: ["present-simple"], level: "A1", misspellings: ["RUNNS", "RUNZ"] },
+    { id: "builtin-9", instruction: "We ___ happy to see you.", correct: "ARE", distractors: ["IS", "AM", "BE"], tags: ["to-be"], level: "A1", misspellings: ["AER", "ARR"] },
+    { id: "builtin-10", instruction: "She ___ English well.", correct: "SPEAKS", distractors: ["SPEAK", "SPOKE", "SPOKEN"], tags: ["present-simple"], level: "A1", misspellings: ["SPEEKS", "SPAEKS"] },
+    { id: "builtin-11", instruction: "I ___ my homework already.", correct: "DID", distractors: ["DO", "DONE", "DOES"], tags: ["past-simple", "irregular"], level: "A2", misspellings: ["DIDD", "DIDE"] },
+    { id: "builtin-12", instruction: "It ___ heavily last winter.", correct: "SNOWED", distractors: ["SNOW", "SNOWS", "SNOWING"], tags: ["past-simple", "regular"], level: "A2", misspellings: ["SNOWWED", "SNOED"] },
+    { id: "builtin-13", instruction: "Opposite of: HAPPY", correct: "SAD", distractors: ["GLAD", "JOY", "FUN"], tags: ["vocabulary", "antonyms"], level: "A1", misspellings: ["SADD", "SAAD"] },
+    { id: "builtin-14", instruction: "Plural of: CHILD", correct: "CHILDREN", distractors: ["CHILDS", "KIDS", "BABY"], tags: ["vocabulary", "plurals"], level: "A1", misspellings: ["CHILDERN", "CHILDRIN"] },
+    { id: "builtin-15", instruction: "Past of: BUY", correct: "BOUGHT", distractors: ["BUYED", "BUYS", "BUYING"], tags: ["past-simple", "irregular"], level: "A2", misspellings: ["BOUHGT", "BOUGTH"] },
+    { id: "builtin-16", instruction: "Lunch? No thanks, ___ already.", correct: "I HAVE EATEN", sequence: ["I", "HAVE", "EATEN"], distractors: ["ATE", "HAS", "EAT"], tags: ["present-perfect"], level: "A2", misspellings: ["I HAVE EATTEN", "I HAV EATEN"] },
+    { id: "builtin-17", instruction: "___ to the cinema last night.", correct: "WE WENT", sequence: ["WE", "WENT"], distractors: ["GO", "US", "GONE"], tags: ["past-simple", "irregular"], level: "A1", misspellings: ["WE WENTE", "WE WHENT"] },
+    { id: "builtin-18", instruction: "Quiet, please: ___ a book.", correct: "SHE IS READING", sequence: ["SHE", "IS", "READING"], distractors: ["READS", "ARE", "HER"], tags: ["present-continuous"], level: "A1", misspellings: ["SHE IS REEDING", "SHE IS READDING"] }
+  ]
+};
+
+export interface ChartOptions {
+  bpm?: number;
+  offset?: number;    // First downbeat, in seconds
+  beats?: number[];   // Detected beat times; when given, questions snap to these instead of a fixed grid
+  duration?: number;  // Song length, so questions never spawn after the music stops
+  difficulty?: DifficultyParams;
+  directional?: boolean; // Assign swing arrows instead of accepting any direction
+  bombs?: boolean;       // Send a misspelling of the answer as a bomb, where the question has some
+  walls?: boolean;       // Walls to dodge between questions (needs head tracking)
+  sentences?: boolean;   // Questions with a word sequence are built up one word per wave
+}
+
+const VERTICAL_DIRECTIONS = [CutDirection.UP, CutDirection.DOWN];
+const ALL_DIRECTIONS = [CutDirection.UP, CutDirection.DOWN, CutDirection.LEFT, CutDirection.RIGHT];
+
+// Harder charts ask for more (and sideways) arrows
+const pickCutDirection = (directional: boolean, directionLevel: number, isCorrect: boolean): CutDirection => {
+  if (!directional) return CutDirection.ANY;
+  if (directionLevel < 1) {
+    return isCorrect ? VERTICAL_DIRECTIONS[Math.floor(Math.random() * 2)] : CutDirection.ANY;
+  }
+  const pool = directionLevel < 2 ? VERTICAL_DIRECTIONS : ALL_DIRECTIONS;
+  return pool[Math.floor(Math.random() * pool.length)];
+};
+
+// Repeatable random numbers in [0, 1) (mulberry32), so a replay can lay out blocks exactly as the run did
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createLayoutSeed = () => Math.floor(Math.random() * 4294967296);
+
+// Place one question's blocks: low spread keeps them central and low, high spread uses every lane and layer
+export const layoutQuestionNotes = (notes: NoteData[], spread: number, random: () => number = Math.random) => {
+  const blocks = notes.filter(n => n.kind !== 'BOMB');
+  const lanePool = spread < 0.34 && blocks.length <= 2 ? [1, 2] : [0, 1, 2, 3];
+  const lanes = lanePool.sort(() => random() - 0.5);
+  const layerCount = 1 + Math.round(Math.min(1, Math.max(0, spread)) * (LAYER_Y_POSITIONS.length - 1));
+
+  blocks.forEach((note, i) => {
+    note.lineIndex = lanes[i % lanes.length];
+    // The answer stays on the lowest layer unless the spread calls for height changes
+    note.lineLayer = note.isCorrect && layerCount < 3 ? 0 : Math.floor(random() * layerCount);
+    note.type = note.lineIndex < 2 ? 'left' : 'right';
+  });
+
+  // Bombs take a free lane if there is one, otherwise the far end of a block's lane
+  notes.filter(n => n.kind === 'BOMB').forEach(bomb => {
+    const freeLanes = LANE_X_POSITIONS.map((_, lane) => lane).filter(lane => !blocks.some(b => b.lineIndex === lane));
+    const pool = freeLanes.length > 0 ? freeLanes : LANE_X_POSITIONS.map((_, lane) => lane);
+    const lane = pool[Math.floor(random() * pool.length)];
+    const block = blocks.find(b => b.lineIndex === lane);
+    bomb.lineIndex = lane;
+    bomb.lineLayer = block ? (block.lineLayer === LAYER_Y_POSITIONS.length - 1 ? 0 : LAYER_Y_POSITIONS.length - 1) : Math.floor(random() * layerCount);
+    bomb.type = lane < 2 ? 'left' : 'right';
+  });
+};
+
+const WALL_DODGES: WallDodge[] = ['LEAN_LEFT', 'LEAN_RIGHT', 'DUCK'];
+export const SENTENCE_WORD_BEATS = 2; // Between the waves of one sentence
 
 // Generate a learning chart
-export const generateDemoChart = (difficultyMultiplier: number = 1): NoteData[] => {
+export const generateDemoChart = (
+  questions: QuestionSet[] = BUILTIN_CURRICULUM.items,
+  { bpm = SONG_BPM, offset = 0, beats, duration, difficulty = DIFFICULTY_PRESETS.NORMAL, directional = false, bombs = false, walls = false, sentences = false }: ChartOptions = {}
+): NoteData[] => {
   const notes: NoteData[] = [];
   let idCount = 0;
+  let wallCount = 0;
+  const beatTime = getBeatTime(bpm);
+  const gapBeats = getQuestionGapBeats(beatTime, difficulty.questionGap);
   
-  // Start at beat 8 to give time to get ready
-  let currentBeat = 8; 
+  // Start after the lead-in to give time to get ready
+  let currentBeat = LEAD_IN_BEATS; 
 
-  PHRASE_CURRICULUM.forEach((q) => {
-    const time = currentBeat * BEAT_TIME;
-    
-    // Shuffle positions
-    const lanes = [0, 1, 2, 3].sort(() => Math.random() - 0.5);
+  const beatToTime = (beat: number): number | null => {
+    if (beats && beats.length > 0) return beat < beats.length ? beats[beat] : null;
+    return offset + beat * beatTime;
+  };
+
+  for (const [index, q] of questions.entries()) {
+    // Sentence building: one wave per word of the answer, a couple of beats apart
+    const words = sentences && q.sequence && q.sequence.length > 1 ? q.sequence : [q.correct];
+    const spanBeats = (words.length - 1) * SENTENCE_WORD_BEATS;
+    const time = beatToTime(currentBeat);
+    const lastWaveTime = beatToTime(currentBeat + spanBeats);
+    // Out of song: the remaining questions simply don't fit
+    if (time === null || lastWaveTime === null || (duration !== undefined && lastWaveTime > duration - SONG_END_MARGIN)) break;
     
-    // 1. The Correct Answer
-    notes.push({
+    const questionId = q.id || `question-${index + 1}`;
+    const createNote = (text: string, isCorrect: boolean, waveTime: number, distractorRank?: number): NoteData => ({
       id: `note-${idCount++}`,
-      time: time,
-      lineIndex: lanes[0],
+      time: waveTime,
+      lineIndex: 0,
       lineLayer: 0,
-      type: lanes[0] < 2 ? 'left' : 'right', 
-      cutDirection: CutDirection.ANY,
-      text: q.correct,
-      isCorrect: true,
-      instruction: q.instruction
+      type: 'left',
+      cutDirection: pickCutDirection(directional, difficulty.directionLevel, isCorrect),
+      text,
+      isCorrect,
+      instruction: q.instruction,
+      questionId,
+      speed: difficulty.noteSpeed,
+      distractorRank
     });
 
-    // 2. Distractors
-    const numDistractors = Math.min(3, 1 + Math.floor(difficultyMultiplier)); // 1 to 3 distractors
-    
-    for (let i = 0; i < numDistractors; i++) {
-        if (i >= q.distractors.length) break;
-        notes.push({
-            id: `note-${idCount++}`,
-            time: time, // Same time
-            lineIndex: lanes[i + 1],
-            lineLayer: i % 2 === 0 ? 1 : 0, // Vary height
-            type: lanes[i + 1] < 2 ? 'left' : 'right',
-            cutDirection: CutDirection.ANY,
-            text: q.distractors[i],
-            isCorrect: false,
-            instruction: q.instruction
-        });
+    const numDistractors = Math.min(3, Math.max(1, Math.round(difficulty.distractors)));
+
+    words.forEach((word, wave) => {
+      const waveTime = beatToTime(currentBeat + wave * SENTENCE_WORD_BEATS)!;
+
+      // 1. The Correct Answer, 2. Distractors (1 to 3): in a sentence, its other words come first,
+      // so slashing a word out of order is a wrong answer
+      const decoys = words.length > 1 ? words.filter(w => w !== word) : [];
+      const group = [createNote(word, true, waveTime)];
+      [...decoys, ...q.distractors].slice(0, numDistractors).forEach((decoy, i) => group.push(createNote(decoy, false, waveTime, i + 1)));
+
+      // 3. A misspelling to keep away from, with the last word
+      if (bombs && wave === words.length - 1 && q.misspellings && q.misspellings.length > 0) {
+        const misspelling = q.misspellings[Math.floor(Math.random() * q.misspellings.length)];
+        group.push({ ...createNote(misspelling, false, waveTime), kind: 'BOMB', cutDirection: CutDirection.ANY });
+      }
+
+      if (words.length > 1) group.forEach(note => {
+        note.sequenceIndex = wave;
+        note.sequenceLength = words.length;
+      });
+
+      layoutQuestionNotes(group, difficulty.spread);
+      notes.push(...group);
+    });
+
+    // Every few questions, a wall halfway to the next one
+    const wallTime = walls && (index + 1) % WALL_EVERY_QUESTIONS === 0 ? beatToTime(currentBeat + spanBeats + Math.floor(gapBeats / 2)) : null;
+    if (wallTime !== null && (duration === undefined || wallTime <= duration - SONG_END_MARGIN)) {
+      const dodge = WALL_DODGES[wallCount++ % WALL_DODGES.length];
+      notes.push({
+        id: `note-${idCount++}`,
+        time: wallTime,
+        lineIndex: 0,
+        lineLayer: 0,
+        type: 'left',
+        cutDirection: CutDirection.ANY,
+        text: '',
+        isCorrect: false,
+        instruction: WALL_INSTRUCTIONS[dodge],
+        questionId: `wall-${wallCount}`,
+        speed: difficulty.noteSpeed,
+        kind: 'WALL',
+        dodge
+      });
     }
 
     // Gap before next question (gives time to read feedback)
-    currentBeat += 10; 
-  });
+    currentBeat += spanBeats + gapBeats; 
+  }
 
   return notes.sort((a, b) => a.time - b.time);
 };
 
 export const DEMO_CHART = generateDemoChart();
 
+// Rendering benchmark: rows of blocks in every lane, far denser than any lesson, to check the frame rate holds
+export const BENCHMARK_NOTE_COUNT = 480;
+export const BENCHMARK_INSTRUCTION = "Rendering benchmark";
+
+export const generateBenchmarkChart = (noteCount: number = BENCHMARK_NOTE_COUNT, rowGap: number = 0.15): NoteData[] => {
+  const words = BUILTIN_CURRICULUM.items.flatMap(q => [q.correct, ...q.distractors]);
+  const directions = [...ALL_DIRECTIONS, CutDirection.ANY];
+  const firstRowTime = Math.abs(SPAWN_Z - PLAYER_Z) / NOTE_SPEED + 1; // The track fills up before the first row arrives
+
+  return Array.from({ length: noteCount }, (_, i): NoteData => {
+    const row = Math.floor(i / LANE_X_POSITIONS.length);
+    const lane = i % LANE_X_POSITIONS.length;
+    return {
+      id: `benchmark-${i}`,
+      time: firstRowTime + row * rowGap,
+      lineIndex: lane,
+      lineLayer: (row + lane) % LAYER_Y_POSITIONS.length,
+      type: lane < 2 ? 'left' : 'right',
+      cutDirection: directions[i % directions.length],
+      text: words[i % words.length],
+      isCorrect: false,
+      instruction: BENCHMARK_INSTRUCTION,
+      questionId: 'benchmark',
+      speed: NOTE_SPEED
+    };
+  });
+};
+
 // Vectors for direction checking
 export const DIRECTION_VECTORS: Record<CutDirection, THREE.Vector3> = {
   [CutDirection.UP]: new THREE.Vector3(0, 1, 0),
@@ -120,3 +366,15 @@ export const DIRECTION_VECTORS: Record<CutDirection, THREE.Vector3> = {
   [CutDirection.RIGHT]: new THREE.Vector3(1, 0, 0),
   [CutDirection.ANY]: new THREE.Vector3(0, 0, 0) // Magnitude check only
 };
+
+// Cosine between the swing (screen plane only) and the note's arrow: 1 = perfectly aligned, -1 = opposite
+export const getDirectionAlignment = (velocity: THREE.Vector3, direction: CutDirection): number => {
+  if (direction === CutDirection.ANY) return 1;
+  const speed = Math.hypot(velocity.x, velocity.y);
+  if (speed < 1e-6) return 0;
+  const target = DIRECTION_VECTORS[direction];
+  return (velocity.x * target.x + velocity.y * target.y) / speed;
+};
+
+export const isSwingAligned = (velocity: THREE.Vector3, direction: CutDirection, toleranceDegrees: number): boolean =>
+  getDirectionAlignment(velocity, direction) >= Math.cos(THREE.MathUtils.degToRad(toleranceDegrees));
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { PLAYER_Z, LANE_WIDTH, LAYER_Y_POSITIONS } from '../constants';
+import { TrackedHands, createTrackedHands, updateTrackedHand } from '../services/handTracking';
+
+const STICK_DEADZONE = 0.12;
+const STICK_X_RANGE = LANE_WIDTH * 1.25; // Full deflection reaches just past the outer lane
+const STICK_Y_RANGE = LAYER_Y_POSITIONS[2] - LAYER_Y_POSITIONS[1] + 0.4;
+
+const applyDeadzone = (value: number) => Math.abs(value) < STICK_DEADZONE ? 0 : value;
+
+// Each stick steers one saber around its own half of the track; flicking a stick is a swing
+const mapStickToWorld = (side: 'left' | 'right', x: number, y: number): THREE.Vector3 => {
+  const centreX = side === 'left' ? -LANE_WIDTH : LANE_WIDTH;
+  return new THREE.Vector3(
+    centreX + applyDeadzone(x) * STICK_X_RANGE,
+    LAYER_Y_POSITIONS[1] - applyDeadzone(y) * STICK_Y_RANGE, // Stick Y is positive downwards
+    PLAYER_Z
+  );
+};
+
+const getActiveGamepad = (): Gamepad | null => {
+  const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+  for (const pad of pads) {
+    if (pad && pad.connected && pad.axes.length >= 4) return pad;
+  }
+  return null;
+};
+
+// Standard-mapping gamepads (Xbox, PlayStation, Switch Pro...), reported in the same shape as camera hand tracking
+export const useGamepadInput = (enabled: boolean) => {
+  const handPositionsRef = useRef<TrackedHands>(createTrackedHands());
+  const [gamepadName, setGamepadName] = useState<string | null>(null);
+
+  // Browsers only reveal a pad after one of its buttons is pressed
+  useEffect(() => {
+    const refresh = () => {
+      const pad = getActiveGamepad();
+      setGamepadName(pad ? pad.id : null);
+    };
+    refresh();
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let frameId = 0;
+
+    // Gamepads are polled, not evented: sample every frame
+    const update = () => {
+        const now = performance.now();
+        const s = handPositionsRef.current;
+        const deltaTime = (now - s.lastTimestamp) / 1000;
+        s.lastTimestamp = now;
+
+        const pad = getActiveGamepad();
+        updateTrackedHand(s, 'left', pad ? mapStickToWorld('left', pad.axes[0], pad.axes[1]) : null, deltaTime);
+        updateTrackedHand(s, 'right', pad ? mapStickToWorld('right', pad.axes[2], pad.axes[3]) : null, deltaTime);
+
+        frameId = requestAnimationFrame(update);
+    };
+    frameId = requestAnimationFrame(update);
+
+    return () => {
+        cancelAnimationFrame(frameId);
+        handPositionsRef.current = createTrackedHands();
+    };
+  }, [enabled]);
+
+  return { handPositionsRef, gamepadName };
+};
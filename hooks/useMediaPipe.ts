@@ -4,83 +4,98 @@
 */
 
 import React, { useEffect, useRef, useState } from 'react';
-import { HandLandmarker, FilesetResolver, HandLandmarkerResult } from '@mediapipe/tasks-vision';
-import * as THREE from 'three';
-
-// Mapping 2D normalized coordinates to 3D game world.
-const mapHandToWorld = (x: number, y: number): THREE.Vector3 => {
-  const GAME_X_RANGE = 5; 
-  const GAME_Y_RANGE = 3.5;
-  const Y_OFFSET = 0.8;
-
-  // MediaPipe often returns mirrored X if facingMode is 'user'.
-  // We might need to invert X depending on the final behavior.
-  // For now, assuming standard mirroring where 0 is left-screen (user's right hand physically if mirrored).
-  const worldX = (0.5 - x) * GAME_X_RANGE; 
-  const worldY = (1.0 - y) * GAME_Y_RANGE - (GAME_Y_RANGE / 2) + Y_OFFSET;
-
-  const worldZ = -Math.max(0, worldY * 0.2);
-
-  return new THREE.Vector3(worldX, Math.max(0.1, worldY), worldZ);
-};
-
-export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>) => {
+import { HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { DetectionStats, HandCalibration, HandTips, HeadPoint, TrackingPreset } from '../types';
+import { DEFAULT_CALIBRATION, TRACKING_PRESETS, DEFAULT_TRACKING_PRESET, MAX_DETECTION_FPS } from '../constants';
+import { TrackedHands, createTrackedHands, createHandednessState, extractHandTips, applyHandTips } from '../services/handTracking';
+import { applyHeadPoint } from '../services/headTracking';
+import { Delegate, HeadDetector, createHandLandmarker, createHeadDetector } from '../services/handLandmarker';
+import type { DetectionRequest, DetectionResponse } from '../services/handLandmarker.worker';
+
+const STATS_SMOOTHING = 0.1; // Weight of the newest sample in the running averages
+const HEAD_EVERY_FRAMES = 2; // The head moves slower than the hands: look for it on every other frame
+
+interface MediaPipeOptions {
+  onHandTipsRef?: React.MutableRefObject<((tips: HandTips, capturedAt: number, head?: HeadPoint | null) => void) | null>; // e.g. a session recorder
+  calibrationRef?: React.MutableRefObject<HandCalibration>; // The active student's reach mapping
+  trackingRef?: React.MutableRefObject<TrackingPreset>;     // Filtering preset from settings
+  headTrackingRef?: React.MutableRefObject<boolean>;        // Follow the head too (walls are on)
+}
+
+const canUseWorker = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+// Starts the detection worker and resolves once its model is loaded
+const startWorker = (): Promise<{ worker: Worker; delegate: Delegate }> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL('../services/handLandmarker.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<DetectionResponse>) => {
+    if (e.data.type === 'ready') {
+      resolve({ worker, delegate: e.data.delegate });
+    } else if (e.data.type === 'error') {
+      worker.terminate();
+      reject(new Error(e.data.message));
+    }
+  };
+  worker.onerror = e => {
+    worker.terminate();
+    reject(new Error(e.message || "The hand tracking worker could not start."));
+  };
+  const init: DetectionRequest = { type: 'init' };
+  worker.postMessage(init);
+});
+
+export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>, { onHandTipsRef, calibrationRef, trackingRef, headTrackingRef }: MediaPipeOptions = {}) => {
   const [isCameraReady, setIsCameraReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handPositionsRef = useRef<{
-    left: THREE.Vector3 | null;
-    right: THREE.Vector3 | null;
-    lastLeft: THREE.Vector3 | null;
-    lastRight: THREE.Vector3 | null;
-    leftVelocity: THREE.Vector3;
-    rightVelocity: THREE.Vector3;
-    lastTimestamp: number;
-  }>({
-    left: null,
-    right: null,
-    lastLeft: null,
-    lastRight: null,
-    leftVelocity: new THREE.Vector3(0,0,0),
-    rightVelocity: new THREE.Vector3(0,0,0),
-    lastTimestamp: 0
-  });
+  const handPositionsRef = useRef<TrackedHands>(createTrackedHands());
 
   // To expose raw results for UI preview
   const lastResultsRef = useRef<HandLandmarkerResult | null>(null);
 
-  const landmarkerRef = useRef<HandLandmarker | null>(null);
-  const requestRef = useRef<number>(0);
+  const statsRef = useRef<DetectionStats>({ inferenceMs: 0, detectionFps: 0, inWorker: false, delegate: null });
+  const handednessRef = useRef(createHandednessState());
 
   useEffect(() => {
     let isActive = true;
+    let worker: Worker | null = null;
+    let landmarker: HandLandmarker | null = null;
+    let headDetector: HeadDetector | null = null; // Main-thread fallback only; the worker has its own
+    let frameCount = 0;
+    let captureTimer = 0;
+    let isBusy = false; // One frame in flight at a time: a slow device skips frames instead of queueing them
+    let lastResultAt = 0;
 
     const setupMediaPipe = async () => {
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"
-        );
-        
-        if (!isActive) return;
-
-        const landmarker = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 2,
-          minHandDetectionConfidence: 0.5,
-          minHandPresenceConfidence: 0.5,
-          minTrackingConfidence: 0.5
-        });
+        let delegate: Delegate;
+        if (canUseWorker()) {
+          try {
+            ({ worker, delegate } = await startWorker());
+          } catch (err: any) {
+            console.warn("Hand tracking worker failed, detecting on the main thread instead:", err);
+          }
+        }
+        // Fallback for browsers without OffscreenCanvas: detect on the main thread, at the same capped rate
+        if (!worker) ({ landmarker, delegate } = await createHandLandmarker());
 
         if (!isActive) {
-             landmarker.close();
+             if (worker) worker.terminate();
+             if (landmarker) landmarker.close();
              return;
         }
 
-        landmarkerRef.current = landmarker;
+        if (worker) {
+          worker.onmessage = (e: MessageEvent<DetectionResponse>) => {
+            if (e.data.type === 'result') processResults(e.data.result, e.data.timestamp, e.data.inferenceMs, e.data.head);
+          };
+          worker.onerror = e => {
+            console.error("Hand tracking worker stopped, detecting on the main thread instead:", e.message);
+            fallBackToMainThread();
+          };
+        }
+        statsRef.current.inWorker = !!worker;
+        statsRef.current.delegate = delegate;
         startCamera();
       } catch (err: any) {
         console.error("Error initializing MediaPipe:", err);
@@ -88,6 +103,26 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
       }
     };
 
+    // The worker died mid-session (e.g. WASM ran out of memory): its frame will never come back
+    const fallBackToMainThread = async () => {
+      if (worker) worker.terminate();
+      worker = null;
+      isBusy = false;
+      statsRef.current.inWorker = false;
+      try {
+        const loaded = await createHandLandmarker();
+        if (!isActive) {
+          loaded.landmarker.close();
+          return;
+        }
+        landmarker = loaded.landmarker;
+        statsRef.current.delegate = loaded.delegate;
+      } catch (err: any) {
+        console.error("Error initializing MediaPipe:", err);
+        setError(`Hand tracking stopped: ${err.message}`);
+      }
+    };
+
     const startCamera = async () => {
       try {
         const stream = await navigator.mediaDevices.getUserMedia({
@@ -103,7 +138,7 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
           videoRef.current.onloadeddata = () => {
              if (isActive) {
                  setIsCameraReady(true);
-                 predictWebcam();
+                 captureTimer = window.setInterval(captureFrame, 1000 / MAX_DETECTION_FPS);
              }
           };
         }
@@ -113,96 +148,63 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
       }
     };
 
-    const predictWebcam = () => {
-        if (!videoRef.current || !landmarkerRef.current || !isActive) return;
-
+    // Runs on its own timer, so detection never waits on (or holds up) the render loop
+    const captureFrame = async () => {
         const video = videoRef.current;
-        // Only process if video has data
-        if (video.videoWidth > 0 && video.videoHeight > 0) {
-             let startTimeMs = performance.now();
-             try {
-                 const results = landmarkerRef.current.detectForVideo(video, startTimeMs);
-                 lastResultsRef.current = results;
-                 processResults(results);
-             } catch (e) {
-                 // Sometimes detectForVideo fails if timestamps aren't strictly increasing or video is not ready
-                 console.warn("Detection failed this frame", e);
-             }
-        }
-
-        requestRef.current = requestAnimationFrame(predictWebcam);
-    };
-
-    const processResults = (results: HandLandmarkerResult) => {
-        const now = performance.now();
-        const deltaTime = (now - handPositionsRef.current.lastTimestamp) / 1000;
-        handPositionsRef.current.lastTimestamp = now;
-
-        let newLeft: THREE.Vector3 | null = null;
-        let newRight: THREE.Vector3 | null = null;
-
-        if (results.landmarks) {
-          for (let i = 0; i < results.landmarks.length; i++) {
-            const landmarks = results.landmarks[i];
-            // Note: MediaPipe 'handedness' can be counter-intuitive when mirrored.
-            const classification = results.handedness[i][0];
-            const isRight = classification.categoryName === 'Right'; 
-            
-            // Index finger tip is landmark 8
-            const tip = landmarks[8];
-            const worldPos = mapHandToWorld(tip.x, tip.y);
-
-            if (isRight) {
-                 newRight = worldPos; 
-            } else {
-                 newLeft = worldPos;
+        if (!isActive || isBusy || !video || video.videoWidth === 0 || video.videoHeight === 0) return;
+
+        isBusy = true;
+        const timestamp = performance.now();
+        const pose = !!(headTrackingRef && headTrackingRef.current) && frameCount++ % HEAD_EVERY_FRAMES === 0;
+        try {
+            if (worker) {
+                const frame = await createImageBitmap(video);
+                const request: DetectionRequest = { type: 'detect', frame, timestamp, pose };
+                worker.postMessage(request, [frame]);
+                return; // Still busy until the result comes back
             }
-          }
-        }
-
-        // --- Update State with Smoothing & Velocity ---
-        const s = handPositionsRef.current;
-        const LERP = 0.6; 
-
-        // Left
-        if (newLeft) {
-            if (s.left) {
-                newLeft.lerpVectors(s.left, newLeft, LERP);
-                if (deltaTime > 0.001) { 
-                     s.leftVelocity.subVectors(newLeft, s.left).divideScalar(deltaTime);
-                }
+            if (landmarker) {
+                const results = landmarker.detectForVideo(video, timestamp);
+                if (pose && !headDetector) headDetector = createHeadDetector();
+                const head = pose ? headDetector!.detect(video, timestamp) : undefined;
+                processResults(results, timestamp, performance.now() - timestamp, head);
             }
-            s.lastLeft = s.left ? s.left.clone() : newLeft.clone();
-            s.left = newLeft;
-        } else {
-            s.left = null;
+        } catch (e) {
+            // Sometimes detection fails if timestamps aren't strictly increasing or video is not ready
+            console.warn("Detection failed this frame", e);
         }
+        isBusy = false;
+    };
 
-        // Right
-        if (newRight) {
-             if (s.right) {
-                 newRight.lerpVectors(s.right, newRight, LERP);
-                 if (deltaTime > 0.001) {
-                      s.rightVelocity.subVectors(newRight, s.right).divideScalar(deltaTime);
-                 }
-             }
-             s.lastRight = s.right ? s.right.clone() : newRight.clone();
-             s.right = newRight;
-        } else {
-            s.right = null;
-        }
+    // `head` is undefined on frames the pose model didn't look at
+    const processResults = (results: HandLandmarkerResult, capturedAt: number, inferenceMs: number, head?: HeadPoint | null) => {
+        isBusy = false;
+        if (!isActive) return;
+        lastResultsRef.current = results;
+
+        const now = performance.now();
+        const stats = statsRef.current;
+        stats.inferenceMs += (inferenceMs - stats.inferenceMs) * STATS_SMOOTHING;
+        if (lastResultAt > 0) stats.detectionFps += (1000 / Math.max(1, now - lastResultAt) - stats.detectionFps) * STATS_SMOOTHING;
+        lastResultAt = now;
+
+        // Stamped with the capture time, not arrival, so velocities aren't skewed by inference time
+        const calibration = calibrationRef ? calibrationRef.current : DEFAULT_CALIBRATION;
+        const settings = TRACKING_PRESETS[trackingRef ? trackingRef.current : DEFAULT_TRACKING_PRESET];
+        const tips = extractHandTips(results, calibration, handednessRef.current, settings);
+        applyHandTips(handPositionsRef.current, tips, capturedAt, calibration, settings);
+        applyHeadPoint(handPositionsRef.current, head, capturedAt, calibration);
+        if (onHandTipsRef && onHandTipsRef.current) onHandTipsRef.current(tips, capturedAt, head);
     };
 
     setupMediaPipe();
 
     return () => {
       isActive = false;
-      if (requestRef.current) {
-          cancelAnimationFrame(requestRef.current);
-      }
-      if (landmarkerRef.current) {
-          landmarkerRef.current.close();
-      }
+      window.clearInterval(captureTimer);
+      if (worker) worker.terminate();
+      if (landmarker) landmarker.close();
+      if (headDetector) headDetector.close();
       if (videoRef.current && videoRef.current.srcObject) {
           const stream = videoRef.current.srcObject as MediaStream;
           stream.getTracks().forEach(t => t.stop());
@@ -210,5 +212,5 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
     };
   }, [videoRef]);
 
-  return { isCameraReady, handPositionsRef, lastResultsRef, error };
+  return { isCameraReady, handPositionsRef, lastResultsRef, statsRef, error };
 };
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { CutDirection } from '../types';
+import { PLAYER_Z, LANE_X_POSITIONS, LAYER_Y_POSITIONS, FULL_SWING_SPEED, DIRECTION_VECTORS } from '../constants';
+import { TrackedHands, createTrackedHands, updateTrackedHand, mapHandToWorld } from '../services/handTracking';
+
+// Keyboard lanes: columns are lanes (left to right), rows are layers (top row = high)
+export const KEY_LANES: Record<string, [number, number]> = {
+  KeyQ: [0, 2], KeyW: [1, 2], KeyE: [2, 2], KeyR: [3, 2],
+  KeyA: [0, 1], KeyS: [1, 1], KeyD: [2, 1], KeyF: [3, 1],
+  KeyZ: [0, 0], KeyX: [1, 0], KeyC: [2, 0], KeyV: [3, 0]
+};
+
+// Held arrow keys pick which way a keyboard slash goes
+const ARROW_DIRECTIONS: Record<string, CutDirection> = {
+  ArrowUp: CutDirection.UP,
+  ArrowDown: CutDirection.DOWN,
+  ArrowLeft: CutDirection.LEFT,
+  ArrowRight: CutDirection.RIGHT
+};
+
+const KEY_SWING_DURATION = 0.2; // Seconds a keyboard slash stays "in" its lane
+
+interface KeySwing {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  until: number;
+}
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+// Mouse drags, touch swipes and keyboard lane keys, reported in the same shape as camera hand tracking.
+// A pointer on the left half of the screen drives the left saber, the right half the right saber.
+export const usePointerInput = (enabled: boolean) => {
+  const handPositionsRef = useRef<TrackedHands>(createTrackedHands());
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const pointers = new Map<number, { x: number; y: number }>(); // Normalized screen coordinates
+    const keySwings: { left: KeySwing | null; right: KeySwing | null } = { left: null, right: null };
+    const heldArrows: CutDirection[] = [];
+    let frameId = 0;
+
+    const trackPointer = (e: PointerEvent) => {
+        // Mice only slash while a button is held; touches and pens always do
+        if (e.pointerType === 'mouse' && e.buttons === 0) {
+            pointers.delete(e.pointerId);
+            return;
+        }
+        pointers.set(e.pointerId, { x: e.clientX / window.innerWidth, y: e.clientY / window.innerHeight });
+    };
+
+    const releasePointer = (e: PointerEvent) => {
+        pointers.delete(e.pointerId);
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (isTypingTarget(e.target)) return;
+
+        const arrow = ARROW_DIRECTIONS[e.code];
+        if (arrow !== undefined) {
+            if (!heldArrows.includes(arrow)) heldArrows.push(arrow);
+            e.preventDefault();
+            return;
+        }
+
+        const lane = KEY_LANES[e.code];
+        if (!lane || e.repeat) return;
+        const [lineIndex, lineLayer] = lane;
+        const direction = heldArrows.length > 0 ? heldArrows[heldArrows.length - 1] : CutDirection.DOWN;
+
+        keySwings[lineIndex < 2 ? 'left' : 'right'] = {
+            position: new THREE.Vector3(LANE_X_POSITIONS[lineIndex], LAYER_Y_POSITIONS[lineLayer], PLAYER_Z),
+            velocity: DIRECTION_VECTORS[direction].clone().multiplyScalar(FULL_SWING_SPEED),
+            until: performance.now() + KEY_SWING_DURATION * 1000
+        };
+    };
+
+    const onKeyUp = (e: KeyboardEvent) => {
+        // The keydown may never have been seen (typing in a field, or pressed before focus)
+        const index = heldArrows.indexOf(ARROW_DIRECTIONS[e.code]);
+        if (index >= 0) heldArrows.splice(index, 1);
+    };
+
+    // Sample once per frame so velocity falls to zero when the pointer stops moving
+    const update = () => {
+        const now = performance.now();
+        const s = handPositionsRef.current;
+        const deltaTime = (now - s.lastTimestamp) / 1000;
+        s.lastTimestamp = now;
+
+        const samples: { left: THREE.Vector3 | null; right: THREE.Vector3 | null } = { left: null, right: null };
+        pointers.forEach(({ x, y }) => {
+            const side = x < 0.5 ? 'left' : 'right';
+            // The screen isn't mirrored like the webcam, so flip X before mapping
+            if (!samples[side]) samples[side] = mapHandToWorld(1 - x, y);
+        });
+
+        (['left', 'right'] as const).forEach(side => {
+            const swing = keySwings[side];
+            if (swing && swing.until > now) {
+                // Keyboard slashes are placed exactly, with a full-speed swing
+                s[side] = swing.position.clone();
+                (side === 'left' ? s.leftVelocity : s.rightVelocity).copy(swing.velocity);
+                return;
+            }
+            keySwings[side] = null;
+            updateTrackedHand(s, side, samples[side], deltaTime);
+        });
+
+        frameId = requestAnimationFrame(update);
+    };
+
+    window.addEventListener('pointerdown', trackPointer);
+    window.addEventListener('pointermove', trackPointer);
+    window.addEventListener('pointerup', releasePointer);
+    window.addEventListener('pointercancel', releasePointer);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    frameId = requestAnimationFrame(update);
+
+    return () => {
+        window.removeEventListener('pointerdown', trackPointer);
+        window.removeEventListener('pointermove', trackPointer);
+        window.removeEventListener('pointerup', releasePointer);
+        window.removeEventListener('pointercancel', releasePointer);
+        window.removeEventListener('keydown', onKeyDown);
+        window.removeEventListener('keyup', onKeyUp);
+        cancelAnimationFrame(frameId);
+        handPositionsRef.current = createTrackedHands();
+    };
+  }, [enabled]);
+
+  return { handPositionsRef };
+};
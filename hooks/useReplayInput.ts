@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { SessionRecording } from '../types';
+import { TRACKING_PRESETS, DEFAULT_TRACKING_PRESET } from '../constants';
+import { getFrameTips, getFrameHead } from '../services/sessionRecording';
+import { applyHeadPoint } from '../services/headTracking';
+import { TrackedHands, createTrackedHands, applyHandTips } from '../services/handTracking';
+
+const SEEK_BACK_TOLERANCE = 0.1; // Seconds; anything larger means the song restarted
+
+// Feed a recorded session back through the same hand pipeline as the live camera,
+// paced by the song so the hands line up with the notes exactly as they were played.
+export const useReplayInput = (recording: SessionRecording | null, audioRef: React.RefObject<HTMLAudioElement | null>) => {
+  const handPositionsRef = useRef<TrackedHands>(createTrackedHands());
+
+  useEffect(() => {
+    if (!recording) return;
+    let frameId = 0;
+    let nextFrame = 0;
+    let lastTime = 0;
+    const settings = TRACKING_PRESETS[recording.tracking || DEFAULT_TRACKING_PRESET];
+
+    const update = () => {
+        const time = audioRef.current ? audioRef.current.currentTime : 0;
+        if (time < lastTime - SEEK_BACK_TOLERANCE) {
+            nextFrame = 0;
+            handPositionsRef.current = createTrackedHands();
+        }
+        lastTime = time;
+
+        // Recorded timestamps, not the wall clock, so velocities match the original run
+        while (nextFrame < recording.frames.length && recording.frames[nextFrame].t <= time) {
+            const frame = recording.frames[nextFrame];
+            applyHandTips(handPositionsRef.current, getFrameTips(frame), frame.t * 1000, recording.calibration, settings);
+            applyHeadPoint(handPositionsRef.current, getFrameHead(frame), frame.t * 1000, recording.calibration);
+            nextFrame++;
+        }
+
+        frameId = requestAnimationFrame(update);
+    };
+    frameId = requestAnimationFrame(update);
+
+    return () => {
+        cancelAnimationFrame(frameId);
+        handPositionsRef.current = createTrackedHands();
+    };
+  }, [recording, audioRef]);
+
+  return { handPositionsRef };
+};
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import { UiFonts } from '../types';
+import { UI_FONT_PATHS } from '../constants';
+import { loadFirstAsset } from '../services/assets';
+
+// Decoding the file proves it is a font and not a page served in its place; 3D text then reads it from the cache
+const loadFont = (url: string) => new FontFace('ui-font-check', `url(${url})`).load().then(() => url);
+
+// The app's own fonts for 3D text, once they're known to load
+export const useUiFonts = (): UiFonts => {
+  const [fonts, setFonts] = useState<UiFonts>({});
+
+  useEffect(() => {
+    let isActive = true;
+    Promise.all([UI_FONT_PATHS.regular, UI_FONT_PATHS.bold].map(path => loadFirstAsset([path], loadFont).catch(() => undefined)))
+      .then(([regular, bold]) => {
+        if (isActive) setFonts({ regular, bold });
+      });
+    return () => { isActive = false; };
+  }, []);
+
+  return fonts;
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TrackedHands, createTrackedHands } from '../services/handTracking';
+
+// Immersive VR sessions for WebXR headsets. The session itself is driven from inside the
+// canvas (see XRControllers); this hook only asks for it and tracks its lifetime.
+export const useXRSession = () => {
+  const [isSupported, setIsSupported] = useState(false);
+  const [session, setSession] = useState<XRSession | null>(null);
+  const sessionRef = useRef<XRSession | null>(null); // For callers holding stale closures (e.g. endGame)
+  const handPositionsRef = useRef<TrackedHands>(createTrackedHands());
+
+  useEffect(() => {
+    let isActive = true;
+    if (!navigator.xr) return;
+    navigator.xr.isSessionSupported('immersive-vr')
+      .then(supported => { if (isActive) setIsSupported(supported); })
+      .catch(() => { if (isActive) setIsSupported(false); });
+    return () => { isActive = false; };
+  }, []);
+
+  // Must be called from a click (or other user gesture)
+  const enterVR = useCallback(async (): Promise<boolean> => {
+    if (!navigator.xr) return false;
+    try {
+      const xrSession = await navigator.xr.requestSession('immersive-vr', { optionalFeatures: ['local-floor'] });
+      xrSession.addEventListener('end', () => {
+        sessionRef.current = null;
+        setSession(null);
+        handPositionsRef.current = createTrackedHands();
+      });
+      sessionRef.current = xrSession;
+      setSession(xrSession);
+      return true;
+    } catch (e) {
+      console.error("Could not start VR session", e);
+      return false;
+    }
+  }, []);
+
+  const exitVR = useCallback(() => {
+    if (sessionRef.current) sessionRef.current.end().catch(() => {});
+  }, []);
+
+  return { isSupported, session, enterVR, exitVR, handPositionsRef };
+};
@@ -6,6 +6,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './services/offline';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -17,4 +19,6 @@ root.render(
   <>
     <App />
   </>
-);
\ No newline at end of file
+);
+
+window.addEventListener('load', () => registerServiceWorker());
\ No newline at end of file
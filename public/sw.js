@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Offline support. Large self-hosted assets (hand and pose models, WASM, fonts, environment map, songs) are cache-first: they never change.
+// Everything else (the app's own bundle, and any CDN fallback that had to be used) is network-first, falling back to the last cached copy.
+
+const CACHE_NAME = 'tempo-strike-v2';
+
+const PRECACHE_URLS = [
+  '/',
+  '/manifest.webmanifest',
+  '/icon.svg',
+  '/mediapipe/wasm/vision_wasm_internal.js',
+  '/mediapipe/wasm/vision_wasm_internal.wasm',
+  '/models/hand_landmarker.task',
+  '/models/pose_landmarker_lite.task',
+  '/fonts/roboto-regular.woff',
+  '/fonts/roboto-bold.woff',
+  '/hdri/potsdamer_platz_1k.hdr',
+  '/music/neon-racer.ogg',
+  '/music/chill-step.ogg',
+  '/music/electro-pop.ogg'
+];
+
+const isLargeAsset = url => url.origin === self.location.origin && /^\/(mediapipe|models|fonts|hdri|music)\//.test(url.pathname);
+
+// One missing file (e.g. assets that were never downloaded) mustn't stop the rest from caching
+const cacheUrls = async urls => {
+  const cache = await caches.open(CACHE_NAME);
+  await Promise.all(urls.map(async url => {
+    if (await cache.match(url)) return;
+    try {
+      let response = await fetch(url).catch(() => null);
+      // Classic scripts from CDNs without CORS can still be cached as opaque responses
+      if (!response) response = await fetch(url, { mode: 'no-cors' });
+      if (response.ok || response.type === 'opaque') await cache.put(url, response);
+    } catch (err) {
+      // Offline or blocked: it will be cached the next time it loads
+    }
+  }));
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(cacheUrls(PRECACHE_URLS).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page sends everything it loaded before this worker took control, so the first visit is enough
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'cache-urls') event.waitUntil(cacheUrls(event.data.urls));
+});
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request.url);
+  if (cached) return cached;
+  if (request.method !== 'GET') return fetch(request);
+
+  // Fetched whole (no Range header), so songs can be cached and then played from the cache
+  const response = await fetch(request.url);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request.url, response.clone());
+  }
+  return response;
+};
+
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    if (request.method === 'GET' && !request.headers.has('range') && (response.status === 200 || response.type === 'opaque')) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(request) || (request.mode === 'navigate' ? await caches.match('/') : undefined);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' && request.method !== 'HEAD') return;
+
+  const url = new URL(request.url);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+  event.respondWith(isLargeAsset(url) ? cacheFirst(request) : networkFirst(request));
+});
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Download the large third-party assets into public/ so the app can serve them itself:
+// the hand and pose models, the 3D text fonts, the scene's environment map and the built-in songs.
+// Safe to re-run: files already present are skipped. Keep in step with the paths in constants.ts.
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const PUBLIC_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public');
+
+const ASSETS = [
+  { file: 'models/hand_landmarker.task', url: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task' },
+  { file: 'models/pose_landmarker_lite.task', url: 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task' },
+  { file: 'fonts/roboto-regular.woff', url: 'https://cdn.jsdelivr.net/npm/@fontsource/roboto@5.0.8/files/roboto-latin-400-normal.woff' },
+  { file: 'fonts/roboto-bold.woff', url: 'https://cdn.jsdelivr.net/npm/@fontsource/roboto@5.0.8/files/roboto-latin-700-normal.woff' },
+  { file: 'hdri/potsdamer_platz_1k.hdr', url: 'https://raw.githack.com/pmndrs/drei-assets/456060a26bbeb8fdf79326f224b6d99b8bcce736/hdri/potsdamer_platz_1k.hdr' },
+  { file: 'music/neon-racer.ogg', url: 'https://commondatastorage.googleapis.com/codeskulptor-demos/riceracer_assets/music/race2.ogg' },
+  { file: 'music/chill-step.ogg', url: 'https://commondatastorage.googleapis.com/codeskulptor-demos/pyman_assets/ateapill.ogg' },
+  { file: 'music/electro-pop.ogg', url: 'https://commondatastorage.googleapis.com/codeskulptor-assets/Epoq-Lepidoptera.ogg' }
+];
+
+const exists = file => fs.access(file).then(() => true, () => false);
+
+let failed = 0;
+for (const { file, url } of ASSETS) {
+  const target = path.join(PUBLIC_DIR, file);
+  if (await exists(target)) {
+    console.log(`✓ ${file}`);
+    continue;
+  }
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, Buffer.from(await response.arrayBuffer()));
+    console.log(`↓ ${file}`);
+  } catch (err) {
+    failed++;
+    console.warn(`✗ ${file}: ${err.message}`);
+  }
+}
+
+// Never fail: the app falls back to the public CDNs for anything missing
+if (failed > 0) console.warn(`${failed} asset(s) could not be downloaded; the app will load them from their CDNs instead.`);
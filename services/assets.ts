@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Load the first working copy of an asset: the app's own, then any public CDN fallbacks.
+
+const checked = new Map<string, Promise<boolean>>();
+
+// A dev server or SPA host answers a missing file with index.html, and none of these assets are text
+const isReachable = (url: string): Promise<boolean> => {
+  if (!checked.has(url)) {
+    checked.set(url, fetch(url, { method: 'HEAD' })
+      .then(response => response.ok && !(response.headers.get('content-type') || '').startsWith('text/'))
+      .catch(() => false));
+  }
+  return checked.get(url)!;
+};
+
+export interface AssetLoadOptions {
+  probe?: string;            // The file to check, for candidates that are folders (e.g. a WASM fileset)
+  tryLastUnprobed?: boolean; // A CDN that can't be probed (HEAD blocked) is still worth a real attempt
+}
+
+// Candidates that look missing are skipped; one that is there but fails to load moves on to the next
+export const loadFirstAsset = async <T>(
+  candidates: string[],
+  load: (url: string) => Promise<T>,
+  options: AssetLoadOptions = {}
+): Promise<T> => {
+  let lastError: unknown = new Error(`No reachable copy of ${candidates[0]}`);
+  for (let i = 0; i < candidates.length; i++) {
+    const url = candidates[i];
+    const isLast = i === candidates.length - 1;
+    if (!(await isReachable(url + (options.probe || ''))) && !(isLast && options.tryLastUnprobed)) continue;
+    try {
+      return await load(url);
+    } catch (err) {
+      console.warn(`Couldn't load ${url}:`, err);
+      lastError = err;
+    }
+  }
+  throw lastError;
+};
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Offline tempo & beat estimation for user-supplied music.
+// Pipeline: decode -> mono low-passed render (OfflineAudioContext) -> onset envelope
+// -> autocorrelation tempo -> comb-filter phase -> beat grid snapped to nearby onsets.
+
+export interface BeatAnalysis {
+  bpm: number;
+  offset: number;   // First beat, in seconds
+  duration: number; // Song length, in seconds
+  beats: number[];  // Beat times, in seconds
+}
+
+const ANALYSIS_SAMPLE_RATE = 22050;
+const HOP_SIZE = 512;        // ~23ms per onset frame
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 120;   // Tempo prior, breaks ties between half/double tempo
+const SNAP_WINDOW = 0.15;    // Fraction of a beat a grid beat may move towards a real onset
+
+// Render a mono, gently low-passed copy so kicks and bass lines dominate the envelope
+const renderForAnalysis = async (buffer: AudioBuffer): Promise<Float32Array> => {
+  const length = Math.ceil(buffer.duration * ANALYSIS_SAMPLE_RATE);
+  const offline = new OfflineAudioContext(1, length, ANALYSIS_SAMPLE_RATE);
+
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+
+  const lowpass = offline.createBiquadFilter();
+  lowpass.type = 'lowpass';
+  lowpass.frequency.value = 1500;
+
+  source.connect(lowpass);
+  lowpass.connect(offline.destination);
+  source.start();
+
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+// Spectral-flux-like onset strength from frame energy
+const computeOnsetEnvelope = (samples: Float32Array): Float32Array => {
+  const frameCount = Math.floor(samples.length / HOP_SIZE);
+  const energy = new Float32Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    const start = f * HOP_SIZE;
+    for (let i = start; i < start + HOP_SIZE; i++) {
+      sum += samples[i] * samples[i];
+    }
+    // Log compression keeps quiet intros from being ignored
+    energy[f] = Math.log1p(1000 * sum / HOP_SIZE);
+  }
+
+  const onset = new Float32Array(frameCount);
+  for (let f = 1; f < frameCount; f++) {
+    onset[f] = Math.max(0, energy[f] - energy[f - 1]);
+  }
+
+  // Subtract a moving average so sustained loud sections don't swamp the peaks
+  const WINDOW = 16;
+  const normalized = new Float32Array(frameCount);
+  let running = 0;
+  for (let f = 0; f < frameCount; f++) {
+    running += onset[f];
+    if (f >= WINDOW) running -= onset[f - WINDOW];
+    const mean = running / Math.min(f + 1, WINDOW);
+    normalized[f] = Math.max(0, onset[f] - mean);
+  }
+  return normalized;
+};
+
+const autocorrelate = (onset: Float32Array, lag: number): number => {
+  let sum = 0;
+  for (let f = lag; f < onset.length; f++) {
+    sum += onset[f] * onset[f - lag];
+  }
+  return sum / (onset.length - lag);
+};
+
+const estimateTempo = (onset: Float32Array, frameRate: number): number => {
+  const minLag = Math.floor(frameRate * 60 / MAX_BPM);
+  const maxLag = Math.ceil(frameRate * 60 / MIN_BPM);
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 * frameRate / lag;
+    // Log-gaussian prior around a typical pop tempo
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM) / 0.9, 2));
+    const score = autocorrelate(onset, lag) * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation for sub-frame lag precision
+  const a = autocorrelate(onset, bestLag - 1);
+  const b = autocorrelate(onset, bestLag);
+  const c = autocorrelate(onset, bestLag + 1);
+  const denom = a - 2 * b + c;
+  const refinedLag = denom !== 0 ? bestLag + 0.5 * (a - c) / denom : bestLag;
+
+  return 60 * frameRate / refinedLag;
+};
+
+// Pick the grid phase whose beats collect the most onset energy
+const estimatePhase = (onset: Float32Array, frameRate: number, bpm: number): number => {
+  const period = frameRate * 60 / bpm;
+  const steps = Math.max(1, Math.round(period));
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+
+  for (let p = 0; p < steps; p++) {
+    let sum = 0;
+    for (let pos = p; pos < onset.length; pos += period) {
+      sum += onset[Math.round(pos)] || 0;
+    }
+    if (sum > bestScore) {
+      bestScore = sum;
+      bestPhase = p;
+    }
+  }
+  return bestPhase / frameRate;
+};
+
+const buildBeatGrid = (onset: Float32Array, frameRate: number, bpm: number, offset: number, duration: number): number[] => {
+  const beatTime = 60 / bpm;
+  const window = Math.max(1, Math.round(beatTime * SNAP_WINDOW * frameRate));
+  const beats: number[] = [];
+
+  for (let t = offset; t < duration; t += beatTime) {
+    const center = Math.round(t * frameRate);
+    let bestFrame = center;
+    let bestValue = onset[center] || 0;
+    for (let f = center - window; f <= center + window; f++) {
+      if (f < 0 || f >= onset.length) continue;
+      if (onset[f] > bestValue * 1.5) {
+        bestValue = onset[f];
+        bestFrame = f;
+      }
+    }
+    beats.push(bestFrame / frameRate);
+  }
+  return beats;
+};
+
+export const analyseAudioBuffer = async (buffer: AudioBuffer): Promise<BeatAnalysis> => {
+  const samples = await renderForAnalysis(buffer);
+  const frameRate = ANALYSIS_SAMPLE_RATE / HOP_SIZE;
+  const onset = computeOnsetEnvelope(samples);
+
+  if (onset.length < frameRate * 4) {
+    throw new Error("Song is too short to find a beat (needs at least a few seconds).");
+  }
+
+  const bpm = estimateTempo(onset, frameRate);
+  const offset = estimatePhase(onset, frameRate, bpm);
+  const duration = buffer.duration;
+
+  return {
+    bpm: Math.round(bpm * 10) / 10,
+    offset,
+    duration,
+    beats: buildBeatGrid(onset, frameRate, bpm, offset, duration)
+  };
+};
+
+export const analyseAudioFile = async (file: Blob): Promise<BeatAnalysis> => {
+  const context = new AudioContext();
+  try {
+    const data = await file.arrayBuffer();
+    const buffer = await context.decodeAudioData(data);
+    return await analyseAudioBuffer(buffer);
+  } finally {
+    context.close();
+  }
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Fit the camera-to-world hand mapping to one student's comfortable reach.
+
+import { HandCalibration, HandType } from '../types';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS } from '../constants';
+
+export type CalibrationCorner = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
+
+// Order the wizard asks for them in; left/right are as the student sees themselves on screen
+export const CALIBRATION_CORNERS: CalibrationCorner[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+
+export type CornerSamples = Record<CalibrationCorner, { x: number; y: number }>; // Raw camera coordinates
+
+export interface CalibrationFitResult {
+  calibration: HandCalibration | null;
+  error: string | null;
+}
+
+const MIN_REACH_WIDTH = 0.15;  // Fraction of the camera frame
+const MIN_REACH_HEIGHT = 0.1;
+
+// A student's reach should span the outer lanes and the lowest to highest layer
+const TARGET_LEFT = LANE_X_POSITIONS[0];
+const TARGET_RIGHT = LANE_X_POSITIONS[LANE_X_POSITIONS.length - 1];
+const TARGET_TOP = LAYER_Y_POSITIONS[LAYER_Y_POSITIONS.length - 1];
+const TARGET_BOTTOM = LAYER_Y_POSITIONS[0];
+
+export const computeCalibration = (corners: CornerSamples, dominantHand: HandType): CalibrationFitResult => {
+  const leftX = (corners.topLeft.x + corners.bottomLeft.x) / 2;
+  const rightX = (corners.topRight.x + corners.bottomRight.x) / 2;
+  const topY = (corners.topLeft.y + corners.topRight.y) / 2;
+  const bottomY = (corners.bottomLeft.y + corners.bottomRight.y) / 2;
+
+  if (Math.abs(rightX - leftX) < MIN_REACH_WIDTH) {
+    return { calibration: null, error: "Your left and right corners were too close together. Stand a little further from the camera and reach wider." };
+  }
+  if (bottomY - topY < MIN_REACH_HEIGHT) {
+    return { calibration: null, error: "Your top and bottom corners were too close together. Reach higher and lower." };
+  }
+
+  // In a selfie view the student's left is the right of the raw camera frame
+  const mirrored = leftX > rightX;
+  const sign = mirrored ? -1 : 1;
+
+  const xRange = (TARGET_RIGHT - TARGET_LEFT) / Math.abs(rightX - leftX);
+  const yRange = (TARGET_TOP - TARGET_BOTTOM) / (bottomY - topY);
+
+  return {
+    error: null,
+    calibration: {
+      xRange,
+      yRange,
+      xOffset: TARGET_LEFT - sign * (leftX - 0.5) * xRange,
+      yOffset: TARGET_TOP - (0.5 - topY) * yRange,
+      mirrored,
+      dominantHand
+    }
+  };
+};
+
+// Flip left/right while keeping the same reach, for cameras whose image is already mirrored
+export const toggleMirror = (calibration: HandCalibration): HandCalibration => ({
+  ...calibration,
+  mirrored: !calibration.mirrored,
+  xOffset: -calibration.xOffset
+});
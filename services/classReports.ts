@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Per-student statistics and whole-class reports for the teacher dashboard.
+
+import { LearnerProfile, LessonRecord } from '../types';
+import { TagAccuracy } from './lessonResults';
+
+export interface ProfileStats {
+  lessons: number;
+  bestScore: number;
+  bestCombo: number;
+  accuracy: number | null; // Correct / answered across all lessons
+  currentStreak: number;   // Consecutive days with at least one lesson
+  lastPlayed: number | null;
+  weakestTags: TagAccuracy[];
+}
+
+const WEAK_TAG_LIMIT = 3;
+
+const toDayKey = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+};
+
+const getDailyStreak = (history: LessonRecord[], now: number): number => {
+  const days = new Set(history.map(h => toDayKey(h.completedAt)));
+  const cursor = new Date(now);
+  // A streak is still alive if today's lesson hasn't happened yet
+  if (!days.has(toDayKey(cursor.getTime()))) cursor.setDate(cursor.getDate() - 1);
+
+  let streak = 0;
+  while (days.has(toDayKey(cursor.getTime()))) {
+    streak++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return streak;
+};
+
+const mergeTags = (records: LessonRecord[]): TagAccuracy[] => {
+  const totals = new Map<string, TagAccuracy>();
+  records.forEach(record => {
+    Object.entries(record.tags).forEach(([tag, { correct, total }]) => {
+      const entry = totals.get(tag) || { tag, correct: 0, total: 0 };
+      entry.correct += correct;
+      entry.total += total;
+      totals.set(tag, entry);
+    });
+  });
+  return Array.from(totals.values()).sort((a, b) => a.correct / a.total - b.correct / b.total);
+};
+
+export const getProfileStats = (profile: LearnerProfile, now: number = Date.now()): ProfileStats => {
+  const { history } = profile;
+  const answered = history.reduce((sum, h) => sum + h.answered, 0);
+  const correct = history.reduce((sum, h) => sum + h.correct, 0);
+
+  return {
+    lessons: history.length,
+    bestScore: history.reduce((best, h) => Math.max(best, h.score), 0),
+    bestCombo: history.reduce((best, h) => Math.max(best, h.maxCombo), 0),
+    accuracy: answered > 0 ? correct / answered : null,
+    currentStreak: getDailyStreak(history, now),
+    lastPlayed: history.length > 0 ? history[history.length - 1].completedAt : null,
+    weakestTags: mergeTags(history).filter(t => t.correct < t.total).slice(0, WEAK_TAG_LIMIT)
+  };
+};
+
+export const getClassTagAccuracy = (profiles: LearnerProfile[]): TagAccuracy[] =>
+  mergeTags(profiles.flatMap(p => p.history));
+
+export const formatPercent = (value: number | null) =>
+  value === null ? '–' : `${Math.round(value * 100)}%`;
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildClassReportCsv = (profiles: LearnerProfile[], now: number = Date.now()): string => {
+  const header = ['Student', 'Lessons', 'Accuracy', 'Best Score', 'Best Combo', 'Day Streak', 'Last Played', 'Weakest Tags'];
+  const rows = profiles.map(profile => {
+    const stats = getProfileStats(profile, now);
+    return [
+      profile.name,
+      stats.lessons,
+      formatPercent(stats.accuracy),
+      stats.bestScore,
+      stats.bestCombo,
+      stats.currentStreak,
+      stats.lastPlayed ? new Date(stats.lastPlayed).toISOString() : '',
+      stats.weakestTags.map(t => t.tag).join('; ')
+    ];
+  });
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+};
+
+// Full-fidelity export: stats plus every lesson, for spreadsheets or archiving
+export const buildClassReportJson = (profiles: LearnerProfile[], now: number = Date.now()): string =>
+  JSON.stringify({
+    generatedAt: new Date(now).toISOString(),
+    classTags: getClassTagAccuracy(profiles),
+    students: profiles.map(profile => ({
+      id: profile.id,
+      name: profile.name,
+      createdAt: new Date(profile.createdAt).toISOString(),
+      stats: getProfileStats(profile, now),
+      history: profile.history
+    }))
+  }, null, 2);
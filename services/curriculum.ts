@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CurriculumPack, QuestionSet } from '../types';
+import { CURRICULUM_FORMAT, CURRICULUM_VERSION } from '../constants';
+
+// Either a usable pack, or the list of problems a teacher needs to fix
+export interface CurriculumParseResult {
+  pack: CurriculumPack | null;
+  errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const normalizeWords = (text: string) => text.trim().toLowerCase().split(/\s+/).join(' ');
+
+// FNV-1a, in base 36: short and stable, not secure
+const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Short label so teachers can find the broken entry in their file
+const describeItem = (raw: unknown, index: number): string => {
+  const label = isRecord(raw) && isNonEmptyString(raw.instruction) ? ` ("${raw.instruction.trim()}")` : '';
+  return `Item ${index + 1}${label}`;
+};
+
+const parseItem = (raw: unknown, index: number, packLocale: string, errors: string[]): QuestionSet | null => {
+  const where = describeItem(raw, index);
+
+  if (!isRecord(raw)) {
+    errors.push(`${where}: must be an object.`);
+    return null;
+  }
+
+  const itemErrors: string[] = [];
+  const { instruction, correct, distractors, misspellings, sequence, id, tags, level, locale } = raw;
+  const correctWord = isNonEmptyString(correct) ? correct.trim() : null;
+
+  if (!isNonEmptyString(instruction)) {
+    itemErrors.push(`"instruction" must be a non-empty string.`);
+  }
+  if (!correctWord) {
+    itemErrors.push(`"correct" must be a non-empty string.`);
+  }
+
+  if (!Array.isArray(distractors) || distractors.length === 0) {
+    itemErrors.push(`"distractors" must be a non-empty list of words.`);
+  } else if (!distractors.every(isNonEmptyString)) {
+    itemErrors.push(`"distractors" may only contain non-empty strings.`);
+  } else if (correctWord && distractors.some(d => d.trim().toLowerCase() === correctWord.toLowerCase())) {
+    itemErrors.push(`"distractors" must not repeat the correct answer "${correctWord}".`);
+  }
+
+  if (misspellings !== undefined && (!isStringArray(misspellings) || !misspellings.every(isNonEmptyString))) {
+    itemErrors.push(`"misspellings" must be a list of non-empty strings.`);
+  } else if (isStringArray(misspellings) && correctWord && misspellings.some(m => m.trim().toLowerCase() === correctWord.toLowerCase())) {
+    itemErrors.push(`"misspellings" must not repeat the correct answer "${correctWord}".`);
+  }
+
+  if (sequence !== undefined && (!isStringArray(sequence) || sequence.length < 2 || !sequence.every(isNonEmptyString))) {
+    itemErrors.push(`"sequence" must list at least two words.`);
+  } else if (isStringArray(sequence) && correctWord && normalizeWords(sequence.join(' ')) !== normalizeWords(correctWord)) {
+    itemErrors.push(`"sequence" must spell out the correct answer "${correctWord}" word by word.`);
+  }
+
+  if (id !== undefined && !isNonEmptyString(id)) {
+    itemErrors.push(`"id" must be a non-empty string when given.`);
+  }
+  if (tags !== undefined && !isStringArray(tags)) {
+    itemErrors.push(`"tags" must be a list of strings.`);
+  }
+  if (level !== undefined && typeof level !== 'string' && typeof level !== 'number') {
+    itemErrors.push(`"level" must be a string such as "A1".`);
+  }
+  if (locale !== undefined && !isNonEmptyString(locale)) {
+    itemErrors.push(`"locale" must be a language tag such as "en-GB".`);
+  }
+
+  if (itemErrors.length > 0 || !isNonEmptyString(instruction) || !correctWord || !isStringArray(distractors)) {
+    itemErrors.forEach(e => errors.push(`${where}: ${e}`));
+    return null;
+  }
+
+  return {
+    id: isNonEmptyString(id) ? id.trim() : undefined,
+    instruction: instruction.trim(),
+    correct: correctWord,
+    distractors: distractors.map(d => d.trim()),
+    misspellings: isStringArray(misspellings) && misspellings.length > 0 ? misspellings.map(m => m.trim()) : undefined,
+    sequence: isStringArray(sequence) ? sequence.map(w => w.trim()) : undefined,
+    tags: isStringArray(tags) ? tags.map(t => t.trim()).filter(Boolean) : [],
+    level: level !== undefined ? String(level) : undefined,
+    locale: isNonEmptyString(locale) ? locale.trim() : packLocale
+  };
+};
+
+// Validate an already-decoded JSON value against the curriculum pack format
+export const parseCurriculumPack = (raw: unknown): CurriculumParseResult => {
+  const errors: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { pack: null, errors: ["The file must contain a curriculum pack object, not a list or a single value."] };
+  }
+
+  const { format, version, title, locale, items: rawItems, id, description } = raw;
+
+  if (format !== CURRICULUM_FORMAT) {
+    errors.push(`"format" must be "${CURRICULUM_FORMAT}".`);
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    errors.push(`"version" must be a whole number.`);
+  } else if (version > CURRICULUM_VERSION) {
+    errors.push(`This pack uses version ${version}, but this app only understands up to version ${CURRICULUM_VERSION}.`);
+  }
+  if (!isNonEmptyString(title)) {
+    errors.push(`"title" must be a non-empty string.`);
+  }
+  if (!isNonEmptyString(locale)) {
+    errors.push(`"locale" must be a language tag such as "en-GB".`);
+  }
+  if (!Array.isArray(rawItems) || rawItems.length === 0) {
+    errors.push(`"items" must be a non-empty list of questions.`);
+    return { pack: null, errors };
+  }
+
+  const packLocale = isNonEmptyString(locale) ? locale.trim() : 'en';
+  const parsedItems = rawItems.map((rawItem: unknown, index: number) => parseItem(rawItem, index, packLocale, errors));
+
+  // Without an id, the same pack must still get the same question ids on every import, or review history is lost
+  const packId = isNonEmptyString(id) ? id.trim() : `pack-${hashString(JSON.stringify([title, parsedItems]))}`;
+
+  const items: QuestionSet[] = [];
+  parsedItems.forEach((item, index) => {
+    if (item) items.push({ ...item, id: item.id || `${packId}-${index + 1}` });
+  });
+
+  const seenIds = new Set<string>();
+  items.forEach(item => {
+    if (seenIds.has(item.id!)) errors.push(`Duplicate item id "${item.id}".`);
+    seenIds.add(item.id!);
+  });
+
+  if (errors.length > 0 || typeof version !== 'number' || !isNonEmptyString(title)) return { pack: null, errors };
+
+  return {
+    errors: [],
+    pack: {
+      format: CURRICULUM_FORMAT,
+      version,
+      id: packId,
+      title: title.trim(),
+      locale: packLocale,
+      description: isNonEmptyString(description) ? description.trim() : undefined,
+      items
+    }
+  };
+};
+
+export const loadCurriculumFile = async (file: File): Promise<CurriculumParseResult> => {
+  let text: string;
+  try {
+    text = await file.text();
+  } catch (e) {
+    return { pack: null, errors: [`Could not read "${file.name}".`] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e: any) {
+    return { pack: null, errors: [`"${file.name}" is not valid JSON: ${e.message}`] };
+  }
+
+  return parseCurriculumPack(json);
+};
+
+// --- Authoring helpers (Lesson Editor) ---
+
+const splitWords = (words: string[] = []): string[] =>
+  words.map(w => w.trim()).filter(Boolean);
+
+export const createQuestionId = (packId: string): string =>
+  `${packId}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Editable copy of a pack; the built-in lesson is forked under a new id so exports never clash with it
+export const createDraftPack = (source: CurriculumPack, forkId?: string): CurriculumPack => {
+  const id = forkId || source.id;
+  return {
+    ...source,
+    id,
+    title: forkId ? `${source.title} (edited)` : source.title,
+    items: source.items.map(item => ({
+      ...item,
+      distractors: [...item.distractors],
+      misspellings: item.misspellings ? [...item.misspellings] : undefined,
+      sequence: item.sequence ? [...item.sequence] : undefined,
+      tags: [...(item.tags || [])]
+    }))
+  };
+};
+
+// Strip half-typed entries from a draft and run it through the same validation as imported files
+export const finalizeDraftPack = (draft: CurriculumPack): CurriculumParseResult =>
+  parseCurriculumPack({
+    ...draft,
+    items: draft.items.map(item => ({
+      ...item,
+      distractors: splitWords(item.distractors),
+      misspellings: splitWords(item.misspellings),
+      sequence: splitWords(item.sequence).length > 0 ? splitWords(item.sequence) : undefined,
+      tags: splitWords(item.tags)
+    }))
+  });
+
+export const serializeCurriculumPack = (pack: CurriculumPack): string =>
+  JSON.stringify(pack, null, 2);
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Difficulty presets and the adaptive controller that slides between them
+// based on the student's rolling accuracy and combo.
+
+import { DifficultyParams, DifficultyPreset } from '../types';
+import { DIFFICULTY_PRESETS } from '../constants';
+
+export interface AdaptiveState {
+  level: number;      // 0 = EASY, 1 = HARD
+  recent: boolean[];  // Most recent question outcomes, newest last
+}
+
+const WINDOW_SIZE = 8;
+const MIN_SAMPLES = 3;         // Don't react to the very first answers
+const TARGET_HIGH = 0.85;      // Above this (with a combo going) the student is cruising
+const TARGET_LOW = 0.6;        // Below this they're struggling
+const STEP_UP = 0.08;
+const STEP_DOWN = 0.15;        // Back off faster than we push, to keep frustration low
+const COMBO_FOR_STEP_UP = 3;
+
+export const createAdaptiveState = (level: number = 0.5): AdaptiveState => ({ level, recent: [] });
+
+export const getRollingAccuracy = (state: AdaptiveState): number | null =>
+  state.recent.length === 0 ? null : state.recent.filter(Boolean).length / state.recent.length;
+
+export const updateAdaptiveState = (state: AdaptiveState, correct: boolean, combo: number): AdaptiveState => {
+  const recent = [...state.recent, correct].slice(-WINDOW_SIZE);
+  const next = { level: state.level, recent };
+  if (recent.length < MIN_SAMPLES) return next;
+
+  const accuracy = getRollingAccuracy(next)!;
+  if (accuracy >= TARGET_HIGH && combo >= COMBO_FOR_STEP_UP) {
+    next.level = Math.min(1, state.level + STEP_UP);
+  } else if (accuracy < TARGET_LOW) {
+    next.level = Math.max(0, state.level - STEP_DOWN);
+  }
+  return next;
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export const interpolateDifficulty = (level: number): DifficultyParams => {
+  const easy = DIFFICULTY_PRESETS.EASY;
+  const hard = DIFFICULTY_PRESETS.HARD;
+  return {
+    noteSpeed: lerp(easy.noteSpeed, hard.noteSpeed, level),
+    distractors: Math.round(lerp(easy.distractors, hard.distractors, level)),
+    spread: lerp(easy.spread, hard.spread, level),
+    questionGap: lerp(easy.questionGap, hard.questionGap, level),
+    directionLevel: Math.round(lerp(easy.directionLevel, hard.directionLevel, level))
+  };
+};
+
+export const getDifficultyParams = (preset: DifficultyPreset, adaptive?: AdaptiveState): DifficultyParams =>
+  preset === 'ADAPTIVE' ? interpolateDifficulty(adaptive ? adaptive.level : 0.5) : DIFFICULTY_PRESETS[preset];
+
+// Adaptive charts are laid out at the hardest density; the scene thins and spaces them out live
+export const getChartDifficulty = (preset: DifficultyPreset): DifficultyParams =>
+  preset === 'ADAPTIVE'
+    ? { ...interpolateDifficulty(0.5), distractors: 3, questionGap: DIFFICULTY_PRESETS.HARD.questionGap }
+    : DIFFICULTY_PRESETS[preset];
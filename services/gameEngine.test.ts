@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { CutDirection, HandPositions, NoteData } from '../types';
+import {
+  NOTE_SPEED, SPAWN_Z, PLAYER_Z, MISS_Z, LANE_X_POSITIONS, LAYER_Y_POSITIONS, NOTE_BOX_SIZE, SABER_HIT_RADIUS, MIN_SWING_SPEED,
+  MAX_HEALTH, HEALTH_GAIN_CORRECT, HEALTH_LOSS_WRONG_HIT, HEALTH_LOSS_MISSED_ANSWER, HEALTH_LOSS_BOMB, DIFFICULTY_PRESETS
+} from '../constants';
+import {
+  NoteEvent, ScoreState, createEngineState, stepEngine, createScoreState, applyNoteEvent, getComboMultiplier, isGameOver, simulateRun
+} from './gameEngine';
+import { Sabers, createSabers } from './saber';
+import { getCutPoints, gradeCut } from './scoring';
+
+const NOTE_TIME = 5;
+const SPAWN_TIME = NOTE_TIME - Math.abs(SPAWN_Z - PLAYER_Z) / NOTE_SPEED;
+const MISS_TIME = NOTE_TIME + (MISS_Z - PLAYER_Z) / NOTE_SPEED;
+
+const makeNote = (overrides: Partial<NoteData> = {}): NoteData => ({
+  id: 'note-0',
+  time: NOTE_TIME,
+  lineIndex: 2,
+  lineLayer: 0,
+  type: 'right',
+  cutDirection: CutDirection.ANY,
+  text: 'went',
+  isCorrect: true,
+  instruction: 'Yesterday I ___ home.',
+  questionId: 'q1',
+  speed: NOTE_SPEED,
+  ...overrides
+});
+
+const makeHands = (rightSpeed = 0): HandPositions => ({
+  left: null,
+  right: null,
+  leftVelocity: new THREE.Vector3(),
+  rightVelocity: new THREE.Vector3(0, -rightSpeed, 0)
+});
+
+const OPTIONS = { directional: false, directionTolerance: 60 };
+
+// A blade lying along the track, swept straight down through the point (x, y) at the player
+const swingDownThrough = (sabers: Sabers, x: number, y: number) => {
+  const pose = sabers.right;
+  pose.active = true;
+  pose.lastBase.set(x, y + 1, PLAYER_Z + 0.5);
+  pose.lastTip.set(x, y + 1, PLAYER_Z - 0.5);
+  pose.base.set(x, y - 1, PLAYER_Z + 0.5);
+  pose.tip.set(x, y - 1, PLAYER_Z - 0.5);
+};
+
+// Step a single note from spawn to the player, then swing through it
+const cutNoteAt = (note: NoteData, xOffset: number, swingSpeed: number): NoteEvent[] => {
+  const engine = createEngineState([note]);
+  const sabers = createSabers();
+  stepEngine(engine, SPAWN_TIME, makeHands(), sabers, OPTIONS);
+  stepEngine(engine, NOTE_TIME - 0.02, makeHands(), sabers, OPTIONS);
+  swingDownThrough(sabers, LANE_X_POSITIONS[note.lineIndex] + xOffset, LAYER_Y_POSITIONS[note.lineLayer]);
+  return stepEngine(engine, NOTE_TIME, makeHands(swingSpeed), sabers, OPTIONS);
+};
+
+const hitEvent = (overrides: Partial<NoteData> = {}, goodCut = true): NoteEvent => {
+  const note = makeNote({ cut: gradeCut(0, 4, 1), ...overrides });
+  return { type: 'hit', note, goodCut };
+};
+
+describe('stepEngine', () => {
+  it('spawns a block once it is far enough ahead to reach the player on its beat', () => {
+    const engine = createEngineState([makeNote()]);
+    const sabers = createSabers();
+
+    expect(stepEngine(engine, SPAWN_TIME - 0.01, makeHands(), sabers, OPTIONS)).toEqual([]);
+    expect(engine.active).toHaveLength(0);
+
+    const events = stepEngine(engine, SPAWN_TIME + 0.01, makeHands(), sabers, OPTIONS);
+    expect(events.map(e => e.type)).toEqual(['spawn']);
+    expect(engine.active).toHaveLength(1);
+    expect(events[0].note.spawnTime).toBe(SPAWN_TIME + 0.01);
+  });
+
+  it('cuts a block when the blade passes within the hit radius of its box', () => {
+    const edge = NOTE_BOX_SIZE.x / 2 + SABER_HIT_RADIUS;
+
+    const inside = cutNoteAt(makeNote(), edge - 0.05, 4);
+    expect(inside.map(e => e.type)).toEqual(['hit']);
+    expect(inside[0].goodCut).toBe(true);
+    expect(inside[0].note.cut).toBeDefined();
+
+    expect(cutNoteAt(makeNote(), edge + 0.05, 4)).toEqual([]);
+  });
+
+  it('ignores a blade moving slower than the minimum swing speed', () => {
+    const note = makeNote();
+    expect(cutNoteAt(note, 0, MIN_SWING_SPEED * 0.5)).toEqual([]);
+    expect(note.hit).toBeUndefined();
+
+    expect(cutNoteAt(makeNote(), 0, MIN_SWING_SPEED * 2).map(e => e.type)).toEqual(['hit']);
+  });
+
+  it('counts a cut through a distractor as a bad cut', () => {
+    const [event] = cutNoteAt(makeNote({ isCorrect: false, text: 'goed' }), 0, 4);
+    expect(event.type).toBe('hit');
+    expect(event.goodCut).toBe(false);
+  });
+
+  it('misses a block once it passes MISS_Z', () => {
+    const engine = createEngineState([makeNote()]);
+    const sabers = createSabers();
+    stepEngine(engine, SPAWN_TIME, makeHands(), sabers, OPTIONS);
+
+    expect(stepEngine(engine, MISS_TIME - 0.01, makeHands(), sabers, OPTIONS)).toEqual([]);
+    const events = stepEngine(engine, MISS_TIME + 0.01, makeHands(), sabers, OPTIONS);
+    expect(events.map(e => e.type)).toEqual(['miss']);
+    expect(events[0].note.missed).toBe(true);
+    expect(engine.active).toHaveLength(0);
+  });
+});
+
+describe('adaptive spacing', () => {
+  it('moves every word of a sentence back together, keeping the gaps between them', () => {
+    const word = (id: string, time: number, sequenceIndex: number, isCorrect: boolean) =>
+      makeNote({ id, questionId: 'q2', time, sequenceIndex, sequenceLength: 3, isCorrect, distractorRank: isCorrect ? undefined : 1 });
+    const chart = [
+      makeNote({ id: 'note-0', questionId: 'q1', time: 5 }),
+      word('note-1', 6, 0, true), word('note-2', 6, 0, false),
+      word('note-3', 7, 1, true), word('note-4', 7, 1, false),
+      word('note-5', 8, 2, true), word('note-6', 8, 2, false)
+    ];
+    const result = simulateRun(chart, [], {
+      ...OPTIONS,
+      adaptive: true,
+      bpm: 120,
+      getDifficulty: () => DIFFICULTY_PRESETS.EASY
+    });
+
+    const spawned = new Map(result.events.filter(e => e.type === 'spawn').map(e => [e.note.id, e.note]));
+    const [first, second, third] = ['note-1', 'note-3', 'note-5'].map(id => spawned.get(id)!);
+    expect(first.time).toBeGreaterThanOrEqual(5 + DIFFICULTY_PRESETS.EASY.questionGap - 0.01);
+    expect(second.time - first.time).toBeCloseTo(1);
+    expect(third.time - second.time).toBeCloseTo(1);
+    expect(spawned.get('note-4')!.time).toBe(second.time);
+  });
+});
+
+describe('getComboMultiplier', () => {
+  it('steps up after 5 and 10 in a row', () => {
+    expect(getComboMultiplier(0)).toBe(1);
+    expect(getComboMultiplier(5)).toBe(1);
+    expect(getComboMultiplier(6)).toBe(2);
+    expect(getComboMultiplier(10)).toBe(2);
+    expect(getComboMultiplier(11)).toBe(4);
+  });
+});
+
+describe('applyNoteEvent', () => {
+  it('pays a correct cut at the multiplier earned so far', () => {
+    const event = hitEvent();
+    const before: ScoreState = { ...createScoreState(), combo: 5, multiplier: 1, health: 50 };
+    const after = applyNoteEvent(before, event);
+
+    expect(after.score).toBe(getCutPoints(event.note.cut));
+    expect(after.combo).toBe(6);
+    expect(after.maxCombo).toBe(6);
+    expect(after.multiplier).toBe(2);
+    expect(after.health).toBe(50 + HEALTH_GAIN_CORRECT);
+  });
+
+  it('never raises health above the maximum', () => {
+    expect(applyNoteEvent(createScoreState(), hitEvent()).health).toBe(MAX_HEALTH);
+  });
+
+  it('breaks the combo and costs health for wrong hits, bombs and missed answers', () => {
+    const streak: ScoreState = { ...createScoreState(), combo: 8, maxCombo: 8, multiplier: 2 };
+
+    const wrong = applyNoteEvent(streak, hitEvent({ isCorrect: false }, false));
+    expect(wrong).toMatchObject({ combo: 0, multiplier: 1, maxCombo: 8, health: MAX_HEALTH - HEALTH_LOSS_WRONG_HIT });
+
+    // The right word cut against its arrow is still a bad cut
+    expect(applyNoteEvent(streak, hitEvent({}, false)).health).toBe(MAX_HEALTH - HEALTH_LOSS_WRONG_HIT);
+
+    expect(applyNoteEvent(streak, hitEvent({ kind: 'BOMB', isCorrect: false }, false)).health).toBe(MAX_HEALTH - HEALTH_LOSS_BOMB);
+    expect(applyNoteEvent(streak, { type: 'miss', note: makeNote() }).health).toBe(MAX_HEALTH - HEALTH_LOSS_MISSED_ANSWER);
+  });
+
+  it('leaves the score alone when a distractor flies past', () => {
+    const state = createScoreState();
+    expect(applyNoteEvent(state, { type: 'miss', note: makeNote({ isCorrect: false }) })).toBe(state);
+  });
+});
+
+describe('isGameOver', () => {
+  it('ends the run when health runs out, and nothing changes the score after that', () => {
+    let state = createScoreState();
+    const wrongHits = Math.ceil(MAX_HEALTH / HEALTH_LOSS_WRONG_HIT);
+    for (let i = 0; i < wrongHits - 1; i++) state = applyNoteEvent(state, hitEvent({ isCorrect: false }, false));
+    expect(isGameOver(state)).toBe(false);
+
+    state = applyNoteEvent(state, hitEvent({ isCorrect: false }, false));
+    expect(state.health).toBe(0);
+    expect(isGameOver(state)).toBe(true);
+    expect(applyNoteEvent(state, hitEvent())).toBe(state);
+  });
+});
+
+describe('simulateRun', () => {
+  it('keeps running until blocks pushed back by adaptive spacing are resolved', () => {
+    const chart = [
+      makeNote({ id: 'note-0', questionId: 'q1', time: 5 }),
+      makeNote({ id: 'note-1', questionId: 'q2', time: 6 })
+    ];
+    const result = simulateRun(chart, [], {
+      ...OPTIONS,
+      adaptive: true,
+      bpm: 120,
+      getDifficulty: () => DIFFICULTY_PRESETS.EASY
+    });
+
+    const misses = result.events.filter(e => e.type === 'miss');
+    expect(misses.map(e => e.note.id)).toEqual(['note-0', 'note-1']);
+    // The second question moved back to leave EASY's gap after the first
+    expect(misses[1].note.time).toBeGreaterThanOrEqual(5 + DIFFICULTY_PRESETS.EASY.questionGap - 0.01);
+    expect(result.endTime).toBeGreaterThan(misses[1].note.time);
+  });
+
+  it('stops at the duration cap', () => {
+    const result = simulateRun([makeNote()], [], { ...OPTIONS, maxDuration: 2 });
+    expect(result.events.map(e => e.type)).toEqual(['spawn']);
+    expect(result.endTime).toBe(2);
+  });
+});
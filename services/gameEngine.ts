@@ -0,0 +1,390 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The game rules without rendering: spawning, hit/miss detection (blocks, bombs and walls), scoring, combo and health.
+// GameScene and App drive it once per animation frame; simulateRun drives it headlessly.
+
+import * as THREE from 'three';
+import { NoteData, HandPositions, HandCalibration, HandFilterSettings, HandType, CutDirection, DifficultyParams, RecordedFrame, SessionRecording } from '../types';
+import {
+  PLAYER_Z, SPAWN_Z, MISS_Z, NOTE_SPEED, SONG_END_MARGIN, LANE_X_POSITIONS, LAYER_Y_POSITIONS, MIN_SWING_SPEED,
+  NOTE_BOX_SIZE, BOMB_BOX_SIZE, WALL_DEPTH, HIT_ZONE_BEFORE, HIT_ZONE_AFTER, MAX_HEALTH, HEALTH_GAIN_CORRECT, HEALTH_LOSS_WRONG_HIT,
+  HEALTH_LOSS_MISSED_ANSWER, HEALTH_LOSS_BOMB, HEALTH_LOSS_WALL, COMBO_MULTIPLIER_STEPS, DIFFICULTY_PRESETS, TRACKING_PRESETS, DEFAULT_TRACKING_PRESET,
+  getBeatTime, getQuestionGapBeats, getDirectionAlignment, isSwingAligned, layoutQuestionNotes, createSeededRandom
+} from '../constants';
+import { gradeCut, getCutPoints } from './scoring';
+import { createTrackedHands, applyHandTips } from './handTracking';
+import { applyHeadPoint, isDodging } from './headTracking';
+import { Sabers, createSabers, updateSabers, sweepSaberThroughBox } from './saber';
+import { getFrameTips, getFrameHead, snapshotChart } from './sessionRecording';
+import { createAdaptiveState, updateAdaptiveState, getDifficultyParams } from './difficulty';
+
+// --- Notes ---
+
+export interface NoteEvent {
+  type: 'spawn' | 'hit' | 'miss';
+  note: NoteData;
+  goodCut?: boolean; // Hits only
+}
+
+export interface EngineOptions {
+  directional: boolean;
+  directionTolerance: number; // Degrees
+  adaptive?: boolean;
+  bpm?: number;               // Adaptive spacing moves questions by whole beats
+  duration?: number;          // Song length: adaptive spacing never pushes a question past the end of the music
+  getDifficulty?: () => DifficultyParams; // Read when each question is about to spawn
+}
+
+export interface EngineState {
+  notes: NoteData[];
+  active: NoteData[];   // Spawned and still in play
+  nextNoteIndex: number;
+  // Adaptive spawning: questions can be pushed back by whole slots to widen the gap
+  preparedQuestionId: string | null;
+  lastQuestionTime: number | null;
+  timeShift: number;
+  random: () => number; // Lays out adaptive questions; seeded so a replay places them the same way
+  lastTime: number | null; // Of the previous step, where each swept cut starts
+}
+
+export const createEngineState = (notes: NoteData[], layoutSeed?: number): EngineState => ({
+  notes,
+  active: [],
+  nextNoteIndex: 0,
+  preparedQuestionId: null,
+  lastQuestionTime: null,
+  timeShift: 0,
+  random: layoutSeed !== undefined ? createSeededRandom(layoutSeed) : Math.random,
+  lastTime: null
+});
+
+export const getNoteZ = (note: NoteData, time: number): number =>
+  PLAYER_Z - ((note.time - time) * (note.speed || NOTE_SPEED));
+
+export const getSpawnAheadTime = (note: NoteData): number =>
+  Math.abs(SPAWN_Z - PLAYER_Z) / (note.speed || NOTE_SPEED);
+
+// Out of song: everything from `startIndex` on is dropped, as if the chart had ended there
+const dropRemainingNotes = (state: EngineState, startIndex: number) => {
+  for (let i = startIndex; i < state.notes.length; i++) state.notes[i].skipped = true;
+  state.nextNoteIndex = state.notes.length;
+};
+
+const isPastSongEnd = (time: number, duration?: number) => duration !== undefined && time > duration - SONG_END_MARGIN;
+
+// Apply the live difficulty to the question starting at `startIndex` just before it spawns
+const prepareQuestion = (state: EngineState, startIndex: number, params: DifficultyParams, bpm: number, duration?: number) => {
+  const { notes } = state;
+  const first = notes[startIndex];
+
+  // Walls keep their place between the questions around them, at the current speed
+  if (first.kind === 'WALL') {
+    if (isPastSongEnd(first.time + state.timeShift, duration)) {
+      dropRemainingNotes(state, startIndex);
+      return;
+    }
+    first.time += state.timeShift;
+    first.speed = params.noteSpeed;
+    return;
+  }
+
+  const group: NoteData[] = [];
+  for (let i = startIndex; i < notes.length && notes[i].questionId === first.questionId; i++) {
+    group.push(notes[i]);
+  }
+
+  const slot = getQuestionGapBeats(getBeatTime(bpm), DIFFICULTY_PRESETS.HARD.questionGap) * getBeatTime(bpm);
+
+  // Question gap: slide this (and every later) question back until it is far enough from the last one
+  const baseTime = first.time; // As charted: `first` is rescheduled along with its wave below
+  let questionTime = baseTime + state.timeShift;
+  while (state.lastQuestionTime !== null && questionTime - state.lastQuestionTime < params.questionGap - 0.01) {
+    state.timeShift += slot;
+    questionTime += slot;
+  }
+
+  // A sentence's waves keep their spacing; the gap to the next question counts from the last of them
+  const waveTimes = Array.from(new Set(group.map(note => note.time)));
+  const lastWaveTime = questionTime + waveTimes[waveTimes.length - 1] - baseTime;
+  if (isPastSongEnd(lastWaveTime, duration)) {
+    dropRemainingNotes(state, startIndex);
+    return;
+  }
+  state.lastQuestionTime = lastWaveTime;
+
+  waveTimes.forEach(waveTime => {
+    const wave = group.filter(note => note.time === waveTime);
+    wave.forEach(note => {
+      note.time = questionTime + waveTime - baseTime;
+      note.speed = params.noteSpeed;
+      note.skipped = note.distractorRank !== undefined && note.distractorRank > params.distractors;
+    });
+    layoutQuestionNotes(wave.filter(n => !n.skipped), params.spread, state.random);
+  });
+};
+
+const notePos = new THREE.Vector3();
+const lastNotePos = new THREE.Vector3();
+const HANDS: HandType[] = ['left', 'right'];
+
+const resolveHit = (state: EngineState, index: number, time: number, goodCut: boolean, events: NoteEvent[]) => {
+  const note = state.active[index];
+  note.hit = true;
+  note.hitTime = time;
+  note.goodCut = goodCut;
+  state.active.splice(index, 1);
+  events.push({ type: 'hit', note, goodCut });
+};
+
+// Advance to `time` (song seconds): spawn due blocks, then resolve misses and cuts. Mutates the notes.
+// Cuts are wherever a blade swept through a block since the last step, so update `sabers` first.
+export const stepEngine = (state: EngineState, time: number, hands: HandPositions, sabers: Sabers, options: EngineOptions): NoteEvent[] => {
+  const lastTime = state.lastTime;
+  state.lastTime = time;
+  const events: NoteEvent[] = [];
+
+  // 1. Spawn Notes
+  while (state.nextNoteIndex < state.notes.length) {
+    const nextNote = state.notes[state.nextNoteIndex];
+
+    if (options.adaptive && options.getDifficulty && state.preparedQuestionId !== nextNote.questionId) {
+      state.preparedQuestionId = nextNote.questionId;
+      prepareQuestion(state, state.nextNoteIndex, options.getDifficulty(), options.bpm || 120, options.duration);
+      if (state.nextNoteIndex >= state.notes.length) break;
+    }
+
+    if (nextNote.time - getSpawnAheadTime(nextNote) > time) break;
+    nextNote.spawnTime = time;
+    if (!nextNote.skipped) {
+      state.active.push(nextNote);
+      events.push({ type: 'spawn', note: nextNote });
+    }
+    state.nextNoteIndex++;
+  }
+
+  // 2. Update & Collide Notes
+  for (let i = state.active.length - 1; i >= 0; i--) {
+    const note = state.active[i];
+    if (note.hit || note.missed) continue;
+
+    const currentZ = getNoteZ(note, time);
+
+    // Miss check (passed player)
+    if (currentZ > MISS_Z) {
+      note.missed = true;
+      state.active.splice(i, 1);
+      events.push({ type: 'miss', note });
+      continue;
+    }
+
+    // Walls: while one passes through the player, the head has to be out of its way
+    if (note.kind === 'WALL') {
+      if (Math.abs(currentZ - PLAYER_Z) <= WALL_DEPTH / 2 && !isDodging(hands.head, note.dodge!)) {
+        resolveHit(state, i, time, false, events);
+      }
+      continue;
+    }
+
+    // Collision check: only around the player's Z position
+    if (currentZ <= PLAYER_Z - HIT_ZONE_BEFORE || currentZ >= PLAYER_Z + HIT_ZONE_AFTER) continue;
+
+    notePos.set(LANE_X_POSITIONS[note.lineIndex], LAYER_Y_POSITIONS[note.lineLayer], currentZ);
+    lastNotePos.copy(notePos);
+    if (lastTime !== null && note.spawnTime !== time) lastNotePos.z = getNoteZ(note, lastTime);
+
+    // Bombs: either blade touching one at any speed sets it off
+    if (note.kind === 'BOMB') {
+      for (const side of HANDS) {
+        const touched = sweepSaberThroughBox(sabers[side], lastNotePos, notePos, BOMB_BOX_SIZE);
+        if (!touched) continue;
+        note.slice = { ...touched, velocity: (side === 'left' ? hands.leftVelocity : hands.rightVelocity).clone() };
+        resolveHit(state, i, time, false, events);
+        break;
+      }
+      continue;
+    }
+
+    const handVel = note.type === 'left' ? hands.leftVelocity : hands.rightVelocity;
+
+    // Blade-accurate: the block's own saber has to pass through its box, however fast it swung
+    const bladeCut = sweepSaberThroughBox(sabers[note.type], lastNotePos, notePos, NOTE_BOX_SIZE);
+    if (!bladeCut) continue;
+
+    // Too slow is ignored rather than counted as a bad cut, so resting a hand on a block is harmless
+    const speed = handVel.length();
+    if (speed < MIN_SWING_SPEED) continue;
+
+    // Slashing the CORRECT answer is a Good Cut; slashing a wrong one is a Bad Cut
+    let goodCut = note.isCorrect;
+
+    // Directional Mode: the swing must follow the arrow
+    if (options.directional && note.cutDirection !== CutDirection.ANY && !isSwingAligned(handVel, note.cutDirection, options.directionTolerance)) {
+      goodCut = false;
+    }
+
+    // Grade the cut for scoring and the floating judgement text
+    const alignment = options.directional ? getDirectionAlignment(handVel, note.cutDirection) : 1;
+    note.cut = gradeCut(time - note.time, speed, alignment);
+    note.slice = { ...bladeCut, velocity: handVel.clone() };
+    resolveHit(state, i, time, goodCut, events);
+  }
+
+  return events;
+};
+
+// The question on the block nearest the player
+export const getCurrentInstruction = (state: EngineState): string | null => {
+  const incoming = state.active.find(n => !n.hit && !n.missed);
+  return incoming ? incoming.instruction : null;
+};
+
+// --- Score, Combo & Health ---
+
+export interface ScoreState {
+  score: number;
+  combo: number;
+  maxCombo: number;
+  multiplier: number;
+  health: number;
+}
+
+export const createScoreState = (): ScoreState => ({
+  score: 0,
+  combo: 0,
+  maxCombo: 0,
+  multiplier: 1,
+  health: MAX_HEALTH
+});
+
+export const getComboMultiplier = (combo: number): number => {
+  const step = COMBO_MULTIPLIER_STEPS.find(s => combo > s.combo);
+  return step ? step.multiplier : 1;
+};
+
+export const isGameOver = (state: ScoreState) => state.health <= 0;
+
+const breakCombo = (state: ScoreState, healthLoss: number): ScoreState => ({
+  ...state,
+  combo: 0,
+  multiplier: 1,
+  health: Math.max(0, state.health - healthLoss)
+});
+
+export const applyNoteEvent = (state: ScoreState, event: NoteEvent): ScoreState => {
+  if (isGameOver(state)) return state;
+  const { note } = event;
+
+  if (event.type === 'hit') {
+    if (note.kind === 'BOMB') return breakCombo(state, HEALTH_LOSS_BOMB);
+    if (note.kind === 'WALL') return breakCombo(state, HEALTH_LOSS_WALL);
+    if (!event.goodCut || !note.isCorrect) return breakCombo(state, HEALTH_LOSS_WRONG_HIT);
+
+    // The multiplier earned so far pays for this cut; the new combo sets the next one
+    const combo = state.combo + 1;
+    return {
+      score: state.score + getCutPoints(note.cut) * state.multiplier,
+      combo,
+      maxCombo: Math.max(state.maxCombo, combo),
+      multiplier: getComboMultiplier(combo),
+      health: Math.min(MAX_HEALTH, state.health + HEALTH_GAIN_CORRECT)
+    };
+  }
+
+  // Letting a wrong answer fly past is exactly right
+  if (event.type === 'miss' && note.isCorrect) return breakCombo(state, HEALTH_LOSS_MISSED_ANSWER);
+  return state;
+};
+
+// What an event says about the student's answer, for adaptive difficulty (null: says nothing)
+export const getAnswerOutcome = (event: NoteEvent): boolean | null => {
+  if (event.note.kind === 'WALL') return null;
+  if (event.type === 'hit') return !!event.goodCut && event.note.isCorrect;
+  if (event.type === 'miss' && event.note.isCorrect) return false;
+  return null;
+};
+
+// --- Headless Simulation ---
+
+export interface SimulationOptions extends EngineOptions {
+  maxDuration?: number; // Seconds; otherwise the run goes on until every block has been cut, missed or dropped
+  step?: number;     // Fixed time step, seconds
+  calibration?: HandCalibration; // Mapping for the recorded fingertips
+  tracking?: HandFilterSettings; // ...and their filtering
+  layoutSeed?: number; // As the run was played, for adaptive layouts
+  onEvent?: (event: NoteEvent, score: ScoreState) => void; // Score after the event
+}
+
+export interface SimulationResult {
+  events: NoteEvent[];
+  score: ScoreState;
+  gameOver: boolean;
+  endTime: number;
+}
+
+const DEFAULT_STEP = 1 / 60;
+
+// Every block cut, missed, or dropped by adaptive difficulty
+const isChartFinished = (state: EngineState) =>
+  state.nextNoteIndex >= state.notes.length && state.active.length === 0;
+
+// Run a chart against recorded hand samples on a fixed clock, through the same rules as a live run.
+// The sabers follow the raw samples, not the poses GameScene eases between them, so a blade that
+// only grazed a block's edge can score differently from the run that was recorded.
+export const simulateRun = (chart: NoteData[], frames: RecordedFrame[], options: SimulationOptions): SimulationResult => {
+  const step = options.step || DEFAULT_STEP;
+  const maxDuration = options.maxDuration !== undefined ? options.maxDuration : Infinity;
+
+  const engine = createEngineState(snapshotChart(chart), options.layoutSeed);
+  const hands = createTrackedHands();
+  const sabers = createSabers();
+  const events: NoteEvent[] = [];
+  let score = createScoreState();
+  let nextFrame = 0;
+  let time = 0;
+
+  // Adaptive spacing can push blocks well past where the chart put them, so run until each one is resolved
+  while (time <= maxDuration && !isGameOver(score) && !isChartFinished(engine)) {
+    while (nextFrame < frames.length && frames[nextFrame].t <= time) {
+      applyHandTips(hands, getFrameTips(frames[nextFrame]), frames[nextFrame].t * 1000, options.calibration, options.tracking);
+      applyHeadPoint(hands, getFrameHead(frames[nextFrame]), frames[nextFrame].t * 1000, options.calibration);
+      nextFrame++;
+    }
+
+    updateSabers(sabers, hands, step);
+    stepEngine(engine, time, hands, sabers, options).forEach(event => {
+      events.push(event);
+      score = applyNoteEvent(score, event);
+      if (options.onEvent) options.onEvent(event, score);
+    });
+    time += step;
+  }
+
+  return { events, score, gameOver: isGameOver(score), endTime: Math.min(time, maxDuration) };
+};
+
+// Replay a saved session headlessly, including the adaptive difficulty it was played with
+export const simulateRecording = (recording: SessionRecording, step?: number): SimulationResult => {
+  const adaptive = recording.difficulty === 'ADAPTIVE';
+  let adaptiveState = createAdaptiveState();
+
+  return simulateRun(recording.chart, recording.frames, {
+    directional: recording.directional,
+    directionTolerance: recording.directionTolerance,
+    adaptive,
+    bpm: recording.bpm,
+    duration: recording.songDuration,
+    step,
+    calibration: recording.calibration,
+    tracking: TRACKING_PRESETS[recording.tracking || DEFAULT_TRACKING_PRESET],
+    layoutSeed: recording.layoutSeed,
+    getDifficulty: () => getDifficultyParams(recording.difficulty, adaptiveState),
+    // Each answer feeds back into the difficulty, as App does during play
+    onEvent: (event, score) => {
+      const outcome = getAnswerOutcome(event);
+      if (adaptive && outcome !== null) adaptiveState = updateAdaptiveState(adaptiveState, outcome, score.combo);
+    }
+  });
+};
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Per-hand filtering of tracked positions: One-Euro smoothing, a least-squares swing velocity,
+// and coasting through short tracking dropouts. Tuned by the TRACKING_PRESETS.
+
+import * as THREE from 'three';
+import { HandFilterSettings } from '../types';
+
+export interface HandFilterState {
+  position: THREE.Vector3 | null;  // Filtered, null once the hand is gone
+  derivative: THREE.Vector3;       // Smoothed speed estimate driving the adaptive cutoff
+  velocity: THREE.Vector3;
+  history: { t: number; position: THREE.Vector3 }[]; // Filtered samples inside the velocity window
+  lastSeen: number;                // Seconds
+}
+
+export const createHandFilterState = (): HandFilterState => ({
+  position: null,
+  derivative: new THREE.Vector3(0,0,0),
+  velocity: new THREE.Vector3(0,0,0),
+  history: [],
+  lastSeen: 0
+});
+
+// Smoothing factor of a first-order low-pass filter at `cutoff` Hz
+const getAlpha = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+const rawDerivative = new THREE.Vector3();
+
+// One-Euro filter (Casiez et al.): heavy smoothing when the hand is still, little lag when it swings
+const filterOneEuro = (f: HandFilterState, sample: THREE.Vector3, dt: number, settings: HandFilterSettings) => {
+  rawDerivative.subVectors(sample, f.position!).divideScalar(dt);
+  f.derivative.lerp(rawDerivative, getAlpha(settings.derivativeCutoff, dt));
+
+  const cutoff = settings.minCutoff + settings.beta * f.derivative.length();
+  f.position!.lerp(sample, getAlpha(cutoff, dt));
+};
+
+// Slope of a straight-line fit through the recent samples: one noisy frame barely moves it
+const fitVelocity = (f: HandFilterState) => {
+  const n = f.history.length;
+  if (n < 2) {
+    f.velocity.set(0, 0, 0);
+    return;
+  }
+
+  const meanT = f.history.reduce((sum, h) => sum + h.t, 0) / n;
+  const mean = new THREE.Vector3();
+  f.history.forEach(h => mean.add(h.position));
+  mean.divideScalar(n);
+
+  let variance = 0;
+  f.velocity.set(0, 0, 0);
+  f.history.forEach(h => {
+    const dt = h.t - meanT;
+    variance += dt * dt;
+    f.velocity.x += dt * (h.position.x - mean.x);
+    f.velocity.y += dt * (h.position.y - mean.y);
+    f.velocity.z += dt * (h.position.z - mean.z);
+  });
+
+  if (variance > 1e-9) f.velocity.divideScalar(variance);
+  else f.velocity.set(0, 0, 0);
+};
+
+// Feed one sample (or its absence) at `now` seconds; returns the position to show, or null
+export const updateHandFilter = (f: HandFilterState, sample: THREE.Vector3 | null, now: number, settings: HandFilterSettings): THREE.Vector3 | null => {
+  const gap = now - f.lastSeen;
+
+  if (sample) {
+    if (!f.position || gap > settings.dropoutBridge) {
+      // A hand that was gone too long starts fresh instead of sweeping across from where it was lost
+      f.position = sample.clone();
+      f.derivative.set(0, 0, 0);
+      f.history = [];
+    } else if (gap > 0) {
+      filterOneEuro(f, sample, gap, settings);
+    }
+    f.lastSeen = now;
+
+    f.history.push({ t: now, position: f.position.clone() });
+    while (f.history.length > 2 && now - f.history[0].t > settings.velocityWindow) f.history.shift();
+    fitVelocity(f);
+
+    return f.position.clone();
+  }
+
+  // Dropouts (often during the fastest swings) coast along the last velocity for a moment
+  if (f.position && gap <= settings.dropoutBridge) {
+    return f.position.clone().addScaledVector(f.velocity, gap);
+  }
+
+  f.position = null;
+  f.history = [];
+  f.velocity.set(0, 0, 0);
+  return null;
+};
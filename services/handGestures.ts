@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Hand gestures for driving the UI from across the room: a fingertip cursor, pinch to click,
+// and a two-handed pinch to pause. Pure functions of the raw MediaPipe landmarks.
+
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HandCalibration, HandType } from '../types';
+
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_KNUCKLE = 9;
+
+const CURSOR_MARGIN = 0.15; // Fraction of the camera frame on each side that maps past the screen edge
+const PINCH_START = 0.25;   // Thumb-to-index distance, as a fraction of hand size
+const PINCH_END = 0.4;      // ...and the (larger) distance that releases it, so a pinch doesn't flicker
+
+const getSide = (results: HandLandmarkerResult, i: number, calibration: HandCalibration): HandType =>
+  (results.handedness[i][0].categoryName === 'Right') === calibration.mirrored ? 'right' : 'left';
+
+// The hand that steers the cursor: the one the student writes with if it's in view, otherwise any
+export const getCursorHand = (results: HandLandmarkerResult | null, calibration: HandCalibration): NormalizedLandmark[] | null => {
+  if (!results || !results.landmarks || results.landmarks.length === 0) return null;
+  const dominant = results.landmarks.findIndex((_, i) => getSide(results, i, calibration) === calibration.dominantHand);
+  return results.landmarks[dominant >= 0 ? dominant : 0];
+};
+
+// Screen position (0..1) of the index fingertip, moving like a mirror image of the student
+export const getCursorPosition = (hand: NormalizedLandmark[], calibration: HandCalibration): { x: number; y: number } => {
+  const tip = hand[INDEX_TIP];
+  const x = calibration.mirrored ? 1 - tip.x : tip.x;
+  const stretch = (v: number) => Math.min(1, Math.max(0, (v - CURSOR_MARGIN) / (1 - 2 * CURSOR_MARGIN)));
+  return { x: stretch(x), y: stretch(tip.y) };
+};
+
+// Thumb and index tips touching; `wasPinching` applies the hysteresis
+export const isPinching = (hand: NormalizedLandmark[], wasPinching: boolean): boolean => {
+  const size = Math.hypot(hand[MIDDLE_KNUCKLE].x - hand[WRIST].x, hand[MIDDLE_KNUCKLE].y - hand[WRIST].y);
+  if (size < 1e-6) return false;
+  const gap = Math.hypot(hand[THUMB_TIP].x - hand[INDEX_TIP].x, hand[THUMB_TIP].y - hand[INDEX_TIP].y) / size;
+  return gap < (wasPinching ? PINCH_END : PINCH_START);
+};
+
+// Pause: both hands pinching at once, something nobody does while slashing
+export interface PauseGestureState {
+  pinching: boolean[]; // Per detected hand, for hysteresis
+  heldSince: number | null; // Seconds
+}
+
+export const createPauseGestureState = (): PauseGestureState => ({ pinching: [], heldSince: null });
+
+// Returns how far through the hold the gesture is (0..1); 1 means pause now
+export const updatePauseGesture = (state: PauseGestureState, results: HandLandmarkerResult | null, now: number, holdTime: number): number => {
+  const hands = results && results.landmarks ? results.landmarks : [];
+  state.pinching = hands.map((hand, i) => isPinching(hand, !!state.pinching[i]));
+
+  if (hands.length < 2 || !state.pinching.every(Boolean)) {
+    state.heldSince = null;
+    return 0;
+  }
+  if (state.heldSince === null) state.heldSince = now;
+  return Math.min(1, (now - state.heldSince) / holdTime);
+};
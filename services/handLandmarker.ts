@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Loading the MediaPipe hand (and, for walls, pose) landmarkers, shared by the detection worker and the main-thread fallback.
+
+import { HandLandmarker, PoseLandmarker, FilesetResolver, ImageSource } from '@mediapipe/tasks-vision';
+import { HeadPoint } from '../types';
+import { MEDIAPIPE_WASM_PATHS, HAND_MODEL_PATHS, POSE_MODEL_PATHS } from '../constants';
+import { loadFirstAsset } from './assets';
+import { extractHeadPoint } from './headTracking';
+
+export type Delegate = 'GPU' | 'CPU';
+
+export interface LoadedLandmarker {
+  landmarker: HandLandmarker;
+  delegate: Delegate;
+}
+
+export interface LoadedPoseLandmarker {
+  landmarker: PoseLandmarker;
+  delegate: Delegate;
+}
+
+const getOptions = (modelPath: string, delegate: Delegate) => ({
+  baseOptions: {
+    modelAssetPath: modelPath,
+    delegate
+  },
+  runningMode: "VIDEO" as const,
+  numHands: 2,
+  minHandDetectionConfidence: 0.5,
+  minHandPresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5
+});
+
+const getPoseOptions = (modelPath: string, delegate: Delegate) => ({
+  baseOptions: {
+    modelAssetPath: modelPath,
+    delegate
+  },
+  runningMode: "VIDEO" as const,
+  numPoses: 1,
+  minPoseDetectionConfidence: 0.5,
+  minPosePresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5
+});
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+// Both landmarkers share one copy of each WASM runtime they try
+const visionPromises = new Map<string, Promise<WasmFileset>>();
+const loadVision = (wasmPath: string) => {
+  if (!visionPromises.has(wasmPath)) {
+    const promise = FilesetResolver.forVisionTasks(wasmPath);
+    promise.catch(() => visionPromises.delete(wasmPath));
+    visionPromises.set(wasmPath, promise);
+  }
+  return visionPromises.get(wasmPath)!;
+};
+
+type CreateLandmarker<T> = (vision: WasmFileset, modelPath: string, delegate: Delegate) => Promise<T>;
+
+// GPU inference is much faster, but some school machines block WebGL or have broken drivers
+const createOnBestDelegate = async <T>(create: CreateLandmarker<T>, vision: WasmFileset, modelPath: string, name: string) => {
+  try {
+    return { landmarker: await create(vision, modelPath, 'GPU'), delegate: 'GPU' as Delegate };
+  } catch (err) {
+    console.warn(`GPU ${name} failed, falling back to the CPU:`, err);
+  }
+  return { landmarker: await create(vision, modelPath, 'CPU'), delegate: 'CPU' as Delegate };
+};
+
+// Self-hosted runtime and model first, then the CDN copies, until one of them actually loads
+const createLandmarker = <T>(modelPaths: string[], create: CreateLandmarker<T>, name: string) =>
+  loadFirstAsset(MEDIAPIPE_WASM_PATHS, wasmPath =>
+    loadFirstAsset(modelPaths, async modelPath => createOnBestDelegate(create, await loadVision(wasmPath), modelPath, name), { tryLastUnprobed: true }),
+    { probe: '/vision_wasm_internal.wasm', tryLastUnprobed: true }
+  );
+
+export const createHandLandmarker = (): Promise<LoadedLandmarker> =>
+  createLandmarker(HAND_MODEL_PATHS, (vision, modelPath, delegate) => HandLandmarker.createFromOptions(vision, getOptions(modelPath, delegate)), "hand tracking");
+
+// Only loaded once walls are switched on: it's another model to download and run
+export const createPoseLandmarker = (): Promise<LoadedPoseLandmarker> =>
+  createLandmarker(POSE_MODEL_PATHS, (vision, modelPath, delegate) => PoseLandmarker.createFromOptions(vision, getPoseOptions(modelPath, delegate)), "pose tracking");
+
+export interface HeadDetector {
+  detect: (frame: ImageSource, timestamp: number) => HeadPoint | null | undefined; // undefined until the model has loaded
+  close: () => void;
+}
+
+// The pose model loads the first time a head is asked for, without holding up hand tracking in the meantime
+export const createHeadDetector = (): HeadDetector => {
+  let landmarker: PoseLandmarker | null = null;
+  let loading = false;
+  let closed = false;
+
+  return {
+    detect: (frame, timestamp) => {
+      if (!landmarker) {
+        if (!loading) {
+          loading = true; // Not retried: without the model, walls simply can't be hit
+          createPoseLandmarker().then(loaded => {
+            if (closed) loaded.landmarker.close();
+            else landmarker = loaded.landmarker;
+          }).catch(err => console.warn("Head tracking unavailable:", err));
+        }
+        return undefined;
+      }
+      const result = landmarker.detectForVideo(frame, timestamp);
+      return extractHeadPoint(result.landmarks[0]);
+    },
+    close: () => {
+      closed = true;
+      if (landmarker) landmarker.close();
+      landmarker = null;
+    }
+  };
+};
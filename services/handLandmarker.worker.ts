@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Hand landmark detection off the main thread, so inference never holds up the render loop.
+// Frames arrive as transferred ImageBitmaps stamped with their capture time; results go back with the same stamp.
+// While walls are on, some frames also go through the pose model for the student's head.
+
+import { HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HeadPoint } from '../types';
+import { Delegate, createHandLandmarker, createHeadDetector } from './handLandmarker';
+
+export type DetectionRequest =
+  | { type: 'init' }
+  | { type: 'detect'; frame: ImageBitmap; timestamp: number; pose: boolean };
+
+export type DetectionResponse =
+  | { type: 'ready'; delegate: Delegate }
+  | { type: 'error'; message: string }
+  | { type: 'result'; result: HandLandmarkerResult; timestamp: number; inferenceMs: number; head?: HeadPoint | null }; // head: only when asked for
+
+// The DOM typings describe a window; this file runs in a dedicated worker
+const workerScope = self as unknown as {
+  onmessage: ((e: MessageEvent<DetectionRequest>) => void) | null;
+  postMessage: (message: DetectionResponse) => void;
+  importScripts: (...urls: string[]) => void;
+};
+
+// MediaPipe loads its WASM glue with importScripts, which module workers refuse: fetch and run it globally instead
+workerScope.importScripts = (...urls: string[]) => {
+  urls.forEach(url => {
+    const request = new XMLHttpRequest();
+    request.open('GET', url, false);
+    request.send();
+    if (request.status !== 200) throw new Error(`Could not load ${url} (${request.status})`);
+    (0, eval)(request.responseText);
+  });
+};
+
+let landmarker: HandLandmarker | null = null;
+const headDetector = createHeadDetector();
+
+const init = async () => {
+  try {
+    const loaded = await createHandLandmarker();
+    landmarker = loaded.landmarker;
+    workerScope.postMessage({ type: 'ready', delegate: loaded.delegate });
+  } catch (err: any) {
+    workerScope.postMessage({ type: 'error', message: err.message || String(err) });
+  }
+};
+
+const detect = (frame: ImageBitmap, timestamp: number, pose: boolean) => {
+  const started = performance.now();
+  try {
+    if (!landmarker) throw new Error("Hand tracking is not ready yet.");
+    const result = landmarker.detectForVideo(frame, timestamp);
+    const head = pose ? headDetector.detect(frame, timestamp) : undefined;
+    workerScope.postMessage({ type: 'result', result, timestamp, inferenceMs: performance.now() - started, head });
+  } catch (err: any) {
+    // A skipped frame is harmless; the next one will be along shortly
+    console.warn("Detection failed this frame", err);
+    workerScope.postMessage({ type: 'result', result: { landmarks: [], worldLandmarks: [], handedness: [], handednesses: [] }, timestamp, inferenceMs: performance.now() - started });
+  } finally {
+    frame.close();
+  }
+};
+
+workerScope.onmessage = (e: MessageEvent<DetectionRequest>) => {
+  const request = e.data;
+  if (request.type === 'init') init();
+  else if (request.type === 'detect') detect(request.frame, request.timestamp, request.pose);
+};
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Turning hand-tracking samples into saber positions and velocities. Pure (no camera, no React),
+// so live tracking, the other input sources, replays and the headless engine all share it.
+
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import * as THREE from 'three';
+import { HandCalibration, HandFilterSettings, HandTips, HandType, TrackedHead } from '../types';
+import { DEFAULT_CALIBRATION, TRACKING_PRESETS, DEFAULT_TRACKING_PRESET } from '../constants';
+import { HandFilterState, createHandFilterState, updateHandFilter } from './handFilter';
+
+// Mapping 2D normalized coordinates to 3D game world.
+export const mapHandToWorld = (x: number, y: number, calibration: HandCalibration = DEFAULT_CALIBRATION): THREE.Vector3 => {
+  const { xRange, yRange, xOffset, yOffset, mirrored } = calibration;
+
+  // The webcam image isn't flipped, so in a selfie view 0 is the player's right.
+  const worldX = (mirrored ? 0.5 - x : x - 0.5) * xRange + xOffset;
+  const worldY = (0.5 - y) * yRange + yOffset;
+
+  const worldZ = -Math.max(0, worldY * 0.2);
+
+  return new THREE.Vector3(worldX, Math.max(0.1, worldY), worldZ);
+};
+
+export interface TrackedHands {
+  left: THREE.Vector3 | null;
+  right: THREE.Vector3 | null;
+  lastLeft: THREE.Vector3 | null;
+  lastRight: THREE.Vector3 | null;
+  leftVelocity: THREE.Vector3;
+  rightVelocity: THREE.Vector3;
+  lastTimestamp: number;
+  previousTimestamp: number; // Sample before last: lastLeft/lastRight were taken then
+  filters?: Record<HandType, HandFilterState>; // Camera and replay tracking only
+  head?: TrackedHead; // Only while walls need it
+}
+
+export const createTrackedHands = (): TrackedHands => ({
+  left: null,
+  right: null,
+  lastLeft: null,
+  lastRight: null,
+  leftVelocity: new THREE.Vector3(0,0,0),
+  rightVelocity: new THREE.Vector3(0,0,0),
+  lastTimestamp: 0,
+  previousTimestamp: 0
+});
+
+// Smooth one hand towards its new sample and derive its velocity (shared by every input source)
+export const updateTrackedHand = (s: TrackedHands, side: 'left' | 'right', newPos: THREE.Vector3 | null, deltaTime: number) => {
+    const LERP = 0.6;
+    const velocity = side === 'left' ? s.leftVelocity : s.rightVelocity;
+    const current = s[side];
+
+    if (newPos) {
+        if (current) {
+            newPos.lerpVectors(current, newPos, LERP);
+            if (deltaTime > 0.001) {
+                velocity.subVectors(newPos, current).divideScalar(deltaTime);
+            }
+        }
+        const last = current ? current.clone() : newPos.clone();
+        if (side === 'left') s.lastLeft = last; else s.lastRight = last;
+        s[side] = newPos;
+    } else {
+        s[side] = null;
+    }
+};
+
+const UNSURE_HANDEDNESS = 0.6; // Classification score below which left/right is a guess
+const CONTINUITY_RADIUS = 0.15; // Fraction of the frame a fingertip can move between frames and stay the same hand
+
+// Remembers which fingertip was which, so a single mislabelled frame can't swap the sabers
+export interface HandednessState {
+  lastTips: HandTips;
+  disagreements: Record<HandType, number>; // Consecutive frames the label contradicted continuity
+}
+
+export const createHandednessState = (): HandednessState => ({
+  lastTips: { left: null, right: null },
+  disagreements: { left: 0, right: 0 }
+});
+
+interface Detection {
+  tip: { x: number; y: number };
+  side: HandType;
+  score: number;
+}
+
+const otherSide = (side: HandType): HandType => side === 'left' ? 'right' : 'left';
+
+// Hysteresis: a fingertip that continues one hand's path keeps that hand until the label disagrees for long enough
+const stabiliseHandedness = (detections: Detection[], state: HandednessState, switchFrames: number) => {
+  const claimed = new Set<HandType>();
+  detections.forEach(d => {
+    let nearest: HandType | null = null;
+    let nearestDistance = CONTINUITY_RADIUS;
+    (['left', 'right'] as HandType[]).forEach(side => {
+      const last = state.lastTips[side];
+      if (!last || claimed.has(side)) return;
+      const distance = Math.hypot(last.x - d.tip.x, last.y - d.tip.y);
+      if (distance < nearestDistance) {
+        nearest = side;
+        nearestDistance = distance;
+      }
+    });
+    if (!nearest) return;
+    claimed.add(nearest);
+
+    if (nearest === d.side) {
+      state.disagreements[nearest] = 0;
+    } else if (++state.disagreements[nearest] < switchFrames) {
+      d.side = nearest;
+    } else {
+      state.disagreements[nearest] = 0;
+    }
+  });
+};
+
+// The only landmark gameplay uses: the index finger tip (landmark 8) of each hand.
+// With a HandednessState, left/right assignments are held steady across frames.
+export const extractHandTips = (
+  results: HandLandmarkerResult,
+  calibration: HandCalibration = DEFAULT_CALIBRATION,
+  handedness?: HandednessState,
+  settings: HandFilterSettings = TRACKING_PRESETS[DEFAULT_TRACKING_PRESET]
+): HandTips => {
+  const detections: Detection[] = (results.landmarks || []).map((landmarks, i) => {
+    // Note: MediaPipe 'handedness' can be counter-intuitive when mirrored.
+    const classification = results.handedness[i][0];
+    const tip = landmarks[8];
+
+    // A camera that mirrors its own image swaps the labels along with the picture
+    const side: HandType = (classification.categoryName === 'Right') === calibration.mirrored ? 'right' : 'left';
+    return { tip: { x: tip.x, y: tip.y }, side, score: classification.score };
+  });
+
+  // A lone hand the model is unsure about is most likely the one the student writes with
+  if (detections.length === 1 && detections[0].score < UNSURE_HANDEDNESS) detections[0].side = calibration.dominantHand;
+
+  if (handedness) stabiliseHandedness(detections, handedness, settings.handednessFrames);
+
+  // Two hands can't both be the same one: the less certain label gives way
+  if (detections.length >= 2 && detections[0].side === detections[1].side) {
+    const weaker = detections[0].score < detections[1].score ? detections[0] : detections[1];
+    weaker.side = otherSide(weaker.side);
+  }
+
+  const tips: HandTips = { left: null, right: null };
+  detections.forEach(d => {
+    if (!tips[d.side]) tips[d.side] = d.tip;
+  });
+  if (handedness) handedness.lastTips = tips;
+  return tips;
+};
+
+// Live tracking and recorded replays both go through here, so they behave identically.
+// `now` is in milliseconds.
+export const applyHandTips = (
+  s: TrackedHands,
+  tips: HandTips,
+  now: number,
+  calibration: HandCalibration = DEFAULT_CALIBRATION,
+  settings: HandFilterSettings = TRACKING_PRESETS[DEFAULT_TRACKING_PRESET]
+) => {
+  s.previousTimestamp = s.lastTimestamp;
+  s.lastTimestamp = now;
+  if (!s.filters) s.filters = { left: createHandFilterState(), right: createHandFilterState() };
+
+  (['left', 'right'] as HandType[]).forEach(side => {
+    const tip = tips[side];
+    const filter = s.filters![side];
+    const previous = s[side];
+
+    s[side] = updateHandFilter(filter, tip ? mapHandToWorld(tip.x, tip.y, calibration) : null, now / 1000, settings);
+    (side === 'left' ? s.leftVelocity : s.rightVelocity).copy(filter.velocity);
+
+    const last = previous ? previous.clone() : s[side] && s[side]!.clone();
+    if (side === 'left') s.lastLeft = last; else s.lastRight = last;
+  });
+};
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Following the student's head for walls: leaning and ducking are measured against where they
+// usually stand. Pure, like handTracking.ts, so live tracking, replays and the headless engine agree.
+
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import * as THREE from 'three';
+import { HandCalibration, HeadPoint, TrackedHead, WallDodge } from '../types';
+import { DEFAULT_CALIBRATION, WALL_LEAN_DISTANCE, WALL_DUCK_DEPTH } from '../constants';
+import { mapHandToWorld } from './handTracking';
+
+const NOSE = 0;
+const HEAD_SMOOTHING = 0.5;   // Share of the way to each new sample
+const STANDING_TIME = 4;      // Seconds for the usual position to catch up with a new one
+const LOST_RESET_TIME = 3000; // ms out of view after which the usual position is forgotten
+
+export const createTrackedHead = (): TrackedHead => ({ position: null, standing: null, lastTimestamp: 0 });
+
+// The nose stands in for the head: it's the landmark the pose model is surest of
+export const extractHeadPoint = (landmarks: NormalizedLandmark[] | undefined): HeadPoint | null => {
+  const nose = landmarks && landmarks[NOSE];
+  if (!nose) return null;
+  return { x: nose.x, y: nose.y };
+};
+
+// `point` undefined: the pose model didn't run this frame, so keep the last position. `now` is in milliseconds.
+export const applyHeadPoint = (
+  s: { head?: TrackedHead },
+  point: HeadPoint | null | undefined,
+  now: number,
+  calibration: HandCalibration = DEFAULT_CALIBRATION
+) => {
+  if (point === undefined) return;
+  if (!s.head) s.head = createTrackedHead();
+  const head = s.head;
+
+  if (!point) {
+    head.position = null;
+    if (now - head.lastTimestamp > LOST_RESET_TIME) head.standing = null;
+    return;
+  }
+
+  const sample = mapHandToWorld(point.x, point.y, calibration);
+  const dt = head.lastTimestamp > 0 ? Math.max(0, (now - head.lastTimestamp) / 1000) : 0;
+  head.lastTimestamp = now;
+  head.position = head.position ? head.position.lerp(sample, HEAD_SMOOTHING) : sample;
+  head.standing = head.standing
+    ? head.standing.lerp(head.position, 1 - Math.exp(-dt / STANDING_TIME))
+    : head.position.clone();
+};
+
+// Out of the wall's way? Without a head to go on, the student gets the benefit of the doubt.
+export const isDodging = (head: TrackedHead | undefined, dodge: WallDodge): boolean => {
+  if (!head || !head.position || !head.standing) return true;
+  const offset = new THREE.Vector3().subVectors(head.position, head.standing);
+  switch (dodge) {
+    case 'LEAN_LEFT': return offset.x < -WALL_LEAN_DISTANCE;
+    case 'LEAN_RIGHT': return offset.x > WALL_LEAN_DISTANCE;
+    case 'DUCK': return -offset.y > WALL_DUCK_DEPTH;
+  }
+};
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Local learner profiles: every student on this device, with their spaced-repetition
+// state and lesson history, kept in localStorage.
+
+import { CurriculumPack, LearnerProfile, LessonRecord, ProfileStore, QuestionResult } from '../types';
+import { getRecallQuality, reviewItem } from './spacedRepetition';
+import { summarizeByTag } from './lessonResults';
+
+const STORE_STORAGE_KEY = 'conjugation-dojo.profiles.v1';
+
+export const createLearnerProfile = (name: string = "Student"): LearnerProfile => ({
+  id: `learner-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  createdAt: Date.now(),
+  items: {},
+  history: []
+});
+
+const createProfileStore = (profiles: LearnerProfile[]): ProfileStore => ({
+  activeProfileId: profiles[0].id,
+  profiles
+});
+
+const normalizeProfile = (profile: LearnerProfile): LearnerProfile => ({
+  ...profile,
+  items: profile.items || {},
+  history: profile.history || []
+});
+
+export const loadProfileStore = (): ProfileStore => {
+  try {
+    const raw = localStorage.getItem(STORE_STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as ProfileStore;
+      if (parsed && Array.isArray(parsed.profiles) && parsed.profiles.length > 0) {
+        const profiles = parsed.profiles.map(normalizeProfile);
+        const activeProfileId = profiles.some(p => p.id === parsed.activeProfileId) ? parsed.activeProfileId : profiles[0].id;
+        return { activeProfileId, profiles };
+      }
+    }
+  } catch (e) {
+    console.warn("Could not read learner profiles, starting fresh", e);
+  }
+  return createProfileStore([createLearnerProfile()]);
+};
+
+export const saveProfileStore = (store: ProfileStore) => {
+  try {
+    localStorage.setItem(STORE_STORAGE_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.warn("Could not save learner profiles", e);
+  }
+};
+
+export const getActiveProfile = (store: ProfileStore): LearnerProfile =>
+  store.profiles.find(p => p.id === store.activeProfileId) || store.profiles[0];
+
+export const updateProfile = (store: ProfileStore, id: string, update: (profile: LearnerProfile) => LearnerProfile): ProfileStore => ({
+  ...store,
+  profiles: store.profiles.map(p => p.id === id ? update(p) : p)
+});
+
+export const addProfile = (store: ProfileStore, name: string): ProfileStore => {
+  const profile = createLearnerProfile(name);
+  return { activeProfileId: profile.id, profiles: [...store.profiles, profile] };
+};
+
+// The last student can't be removed; there is always someone to play as
+export const removeProfile = (store: ProfileStore, id: string): ProfileStore => {
+  const profiles = store.profiles.filter(p => p.id !== id);
+  if (profiles.length === 0) return store;
+  return {
+    activeProfileId: store.activeProfileId === id ? profiles[0].id : store.activeProfileId,
+    profiles
+  };
+};
+
+export interface LessonSummary {
+  results: QuestionResult[];
+  totalQuestions: number;
+  score: number;
+  maxCombo: number;
+  victory: boolean;
+  curriculum: CurriculumPack;
+}
+
+// Fold one lesson into the review schedule and the student's history
+export const recordLesson = (profile: LearnerProfile, lesson: LessonSummary, now: number = Date.now()): LearnerProfile => {
+  const items = { ...profile.items };
+  lesson.results.forEach(result => {
+    items[result.questionId] = reviewItem(result.questionId, items[result.questionId], getRecallQuality(result), now);
+  });
+
+  const tags: LessonRecord['tags'] = {};
+  summarizeByTag(lesson.results).forEach(({ tag, correct, total }) => { tags[tag] = { correct, total }; });
+
+  const record: LessonRecord = {
+    completedAt: now,
+    curriculumId: lesson.curriculum.id,
+    curriculumTitle: lesson.curriculum.title,
+    score: lesson.score,
+    correct: lesson.results.filter(r => r.outcome === 'correct').length,
+    answered: lesson.results.length,
+    total: lesson.totalQuestions,
+    maxCombo: lesson.maxCombo,
+    victory: lesson.victory,
+    tags
+  };
+
+  return { ...profile, items, history: [...profile.history, record] };
+};
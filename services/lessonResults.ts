@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Per-question bookkeeping for a run: what the student slashed, when, and how well.
+
+import { NoteData, QuestionResult, QuestionSet } from '../types';
+
+export type LessonResults = Record<string, QuestionResult>;
+
+const getOrCreateResult = (results: LessonResults, note: NoteData, question?: QuestionSet): QuestionResult => {
+  if (!results[note.questionId]) {
+    results[note.questionId] = {
+      questionId: note.questionId,
+      instruction: note.instruction,
+      correct: question ? question.correct : note.isCorrect ? note.text : '',
+      tags: question?.tags || [],
+      outcome: 'missed',
+      answer: null,
+      wrongAnswers: []
+    };
+    if (note.sequenceLength) results[note.questionId].sentence = { words: note.sequenceLength, inOrder: 0, broken: false };
+  }
+  return results[note.questionId];
+};
+
+// Sentence building: every word in order so far earns its share, until the first wrong or missed word.
+// The right word cut against its arrow breaks the sentence too, as it costs health in the score.
+const recordSentenceWord = (result: QuestionResult, note: NoteData, hit: boolean) => {
+  const sentence = result.sentence!;
+  if (sentence.broken) return;
+  if (hit && note.isCorrect && note.goodCut !== false && note.sequenceIndex === sentence.inOrder) {
+    sentence.inOrder++;
+    result.outcome = sentence.inOrder === sentence.words ? 'correct' : 'partial';
+    result.judgement = note.goodCut ? note.cut?.judgement : undefined;
+    return;
+  }
+  sentence.broken = true;
+  if (sentence.inOrder > 0) result.outcome = 'partial';
+  else if (hit) result.outcome = 'wrong';
+};
+
+// Share of the answer the student got (0-1); a sentence can be partly right
+export const getResultCredit = (result: QuestionResult): number => {
+  if (result.sentence) return result.sentence.inOrder / result.sentence.words;
+  return result.outcome === 'correct' ? 1 : 0;
+};
+
+// The sentence with the words cut so far in its blank, and a blank for each word still to come
+export const fillSentenceBlank = (instruction: string, words: (string | null)[]): string => {
+  const filled = words.map(word => word || '___').join(' ');
+  return instruction.includes('___') ? instruction.replace('___', filled) : `${instruction} ${filled}`;
+};
+
+// Walls aren't answers: running into one says nothing about the student's grammar
+export const recordNoteHit = (results: LessonResults, note: NoteData, question?: QuestionSet) => {
+  if (note.kind === 'WALL') return;
+  const result = getOrCreateResult(results, note, question);
+
+  if (result.answer === null) {
+    result.answer = note.text;
+    if (note.hitTime !== undefined && note.spawnTime !== undefined) {
+      result.reactionTime = note.hitTime - note.spawnTime;
+    }
+  }
+
+  if (result.sentence) {
+    if (!note.isCorrect) result.wrongAnswers.push(note.text);
+    recordSentenceWord(result, note, true);
+    return;
+  }
+
+  // The right word cut against its arrow is a bad cut, and the score already treats it as wrong
+  if (note.isCorrect && note.goodCut !== false) {
+    // Finding the right word after a wrong slash still counts as wrong
+    if (result.outcome !== 'wrong') {
+      result.outcome = 'correct';
+      result.judgement = note.goodCut ? note.cut?.judgement : undefined;
+    }
+  } else {
+    result.outcome = 'wrong';
+    if (!note.isCorrect) result.wrongAnswers.push(note.text);
+  }
+};
+
+// Only the correct block matters when it flies past; ignored distractors are the right call
+export const recordNoteMiss = (results: LessonResults, note: NoteData, question?: QuestionSet) => {
+  if (!note.isCorrect) return;
+  const result = getOrCreateResult(results, note, question);
+  if (result.sentence) recordSentenceWord(result, note, false);
+};
+
+export interface TagAccuracy {
+  tag: string;
+  correct: number;
+  total: number;
+}
+
+// Accuracy per grammar category; untagged questions are grouped as "general"
+export const summarizeByTag = (results: QuestionResult[]): TagAccuracy[] => {
+  const byTag = new Map<string, TagAccuracy>();
+  results.forEach(result => {
+    const tags = result.tags.length > 0 ? result.tags : ['general'];
+    tags.forEach(tag => {
+      const entry = byTag.get(tag) || { tag, correct: 0, total: 0 };
+      entry.total += 1;
+      if (result.outcome === 'correct') entry.correct += 1;
+      byTag.set(tag, entry);
+    });
+  });
+  return Array.from(byTag.values()).sort((a, b) => a.correct / a.total - b.correct / b.total);
+};
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Install the service worker (public/sw.js) so the app keeps working without a network after its first load.
+
+export const registerServiceWorker = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+    const registration = await navigator.serviceWorker.ready;
+
+    // Files fetched before the worker took over (this very first load) aren't cached yet: hand them over
+    const urls = [location.href, ...performance.getEntriesByType('resource').map(entry => entry.name)]
+      .filter(url => url.startsWith('http'));
+    if (registration.active) registration.active.postMessage({ type: 'cache-urls', urls });
+  } catch (err) {
+    // Hosts that don't serve sw.js just run online-only
+    console.warn("Offline support unavailable", err);
+  }
+};
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The saber blades as the game sees them: where each one points, and whether its swing since the last
+// step passed through a block. Saber.tsx draws the same pose, so what the student sees is what cuts.
+
+import * as THREE from 'three';
+import { HandPositions, HandType, NoteSlice } from '../types';
+import { SABER_BLADE_START, SABER_BLADE_LENGTH, SABER_HIT_RADIUS } from '../constants';
+
+export interface SaberPose {
+  active: boolean;          // False while the hand is out of view
+  position: THREE.Vector3;  // Hilt
+  rotation: THREE.Euler;
+  base: THREE.Vector3;      // Blade segment, world space
+  tip: THREE.Vector3;
+  lastBase: THREE.Vector3;  // ...and where it was on the previous step
+  lastTip: THREE.Vector3;
+}
+
+export type Sabers = Record<HandType, SaberPose>;
+
+const createSaberPose = (): SaberPose => ({
+  active: false,
+  position: new THREE.Vector3(),
+  rotation: new THREE.Euler(),
+  base: new THREE.Vector3(),
+  tip: new THREE.Vector3(),
+  lastBase: new THREE.Vector3(),
+  lastTip: new THREE.Vector3()
+});
+
+export const createSabers = (): Sabers => ({ left: createSaberPose(), right: createSaberPose() });
+
+// Per-frame easing at 60 fps, converted to the actual step so the pose doesn't depend on frame rate
+const POSITION_EASING = 0.5;
+const ROTATION_EASING = 0.2;
+const RESTING_PITCH = -Math.PI / 3.5; // Tilted forward ~50 degrees
+const RESTING_ROLL = 0.2;             // Each blade leans out to its own side
+
+const easing = (perFrame: number, dt: number) => 1 - Math.pow(1 - perFrame, dt * 60);
+
+const bladeOffset = new THREE.Vector3();
+
+const placeBlade = (pose: SaberPose) => {
+  bladeOffset.set(0, SABER_BLADE_START, 0).applyEuler(pose.rotation);
+  pose.base.copy(pose.position).add(bladeOffset);
+  bladeOffset.set(0, SABER_BLADE_START + SABER_BLADE_LENGTH, 0).applyEuler(pose.rotation);
+  pose.tip.copy(pose.position).add(bladeOffset);
+};
+
+const updateSaberPose = (pose: SaberPose, side: HandType, target: THREE.Vector3 | null, velocity: THREE.Vector3, dt: number) => {
+  pose.lastBase.copy(pose.base);
+  pose.lastTip.copy(pose.tip);
+
+  if (!target) {
+    pose.active = false;
+    return;
+  }
+
+  // Ready stance, leaning into the swing: up/down and forward/back pitch the blade, left/right rolls it
+  const pitch = RESTING_PITCH + velocity.y * 0.05 + velocity.z * 0.02;
+  const roll = (side === 'left' ? RESTING_ROLL : -RESTING_ROLL) - velocity.x * 0.05;
+
+  if (pose.active) {
+    pose.position.lerp(target, easing(POSITION_EASING, dt));
+    const t = easing(ROTATION_EASING, dt);
+    pose.rotation.set(
+      THREE.MathUtils.lerp(pose.rotation.x, pitch, t),
+      THREE.MathUtils.lerp(pose.rotation.y, 0, t),
+      THREE.MathUtils.lerp(pose.rotation.z, roll, t)
+    );
+    placeBlade(pose);
+    return;
+  }
+
+  // Coming back into view: appear in place rather than sweeping across from where the hand was lost
+  pose.active = true;
+  pose.position.copy(target);
+  pose.rotation.set(pitch, 0, roll);
+  placeBlade(pose);
+  pose.lastBase.copy(pose.base);
+  pose.lastTip.copy(pose.tip);
+};
+
+// Follow the hands; `dt` is seconds since the last update
+export const updateSabers = (sabers: Sabers, hands: HandPositions, dt: number) => {
+  updateSaberPose(sabers.left, 'left', hands.left, hands.leftVelocity, dt);
+  updateSaberPose(sabers.right, 'right', hands.right, hands.rightVelocity, dt);
+};
+
+// --- Swept Collision ---
+
+export type BladeCut = Pick<NoteSlice, 'point' | 'normal'>;
+
+const MAX_SWEEP_STEPS = 16;
+
+const from = new THREE.Vector3();
+const to = new THREE.Vector3();
+const halfSize = new THREE.Vector3();
+const stepCentre = new THREE.Vector3();
+const lastMid = new THREE.Vector3();
+const mid = new THREE.Vector3();
+const sweep = new THREE.Vector3();
+const blade = new THREE.Vector3();
+const normal = new THREE.Vector3();
+const FORWARD = new THREE.Vector3(0, 0, 1);
+
+// Where segment a→b enters the box centred on the origin (as a fraction along it), or null if it misses
+const segmentEntersBox = (a: THREE.Vector3, b: THREE.Vector3, half: THREE.Vector3): number | null => {
+  let enter = 0;
+  let exit = 1;
+  for (const axis of ['x', 'y', 'z'] as const) {
+    const start = a[axis];
+    const delta = b[axis] - start;
+    if (Math.abs(delta) < 1e-9) {
+      if (Math.abs(start) > half[axis]) return null;
+      continue;
+    }
+    let near = (-half[axis] - start) / delta;
+    let far = (half[axis] - start) / delta;
+    if (near > far) [near, far] = [far, near];
+    enter = Math.max(enter, near);
+    exit = Math.min(exit, far);
+    if (enter > exit) return null;
+  }
+  return enter;
+};
+
+// Did the blade pass through a block between the last step and this one? The block moves too, so the
+// sweep is traced in the block's own frame: its centre was `lastCentre` then and is `centre` now.
+// Returns where the blade struck and the plane it cut along, in world space.
+export const sweepSaberThroughBox = (
+  pose: SaberPose,
+  lastCentre: THREE.Vector3,
+  centre: THREE.Vector3,
+  size: THREE.Vector3
+): BladeCut | null => {
+  if (!pose.active) return null;
+  halfSize.copy(size).multiplyScalar(0.5).addScalar(SABER_HIT_RADIUS);
+
+  // Fine enough steps that a fast swing can't jump clean over the block
+  const travel = Math.max(
+    from.copy(pose.base).sub(centre).distanceTo(to.copy(pose.lastBase).sub(lastCentre)),
+    from.copy(pose.tip).sub(centre).distanceTo(to.copy(pose.lastTip).sub(lastCentre))
+  );
+  const steps = Math.min(MAX_SWEEP_STEPS, Math.max(1, Math.ceil(travel / Math.min(halfSize.x, halfSize.y, halfSize.z))));
+
+  // The start pose was tested on the previous step, so begin one step into the sweep
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    stepCentre.lerpVectors(lastCentre, centre, t);
+    from.lerpVectors(pose.lastBase, pose.base, t).sub(stepCentre);
+    to.lerpVectors(pose.lastTip, pose.tip, t).sub(stepCentre);
+    const along = segmentEntersBox(from, to, halfSize);
+    if (along === null) continue;
+
+    const point = new THREE.Vector3().lerpVectors(from, to, along).add(stepCentre);
+
+    // The cut plane holds the blade and the direction it was moving through the block
+    blade.subVectors(to, from);
+    lastMid.addVectors(pose.lastBase, pose.lastTip).multiplyScalar(0.5).sub(lastCentre);
+    mid.addVectors(pose.base, pose.tip).multiplyScalar(0.5).sub(centre);
+    sweep.subVectors(mid, lastMid);
+    normal.crossVectors(blade, sweep);
+    if (normal.lengthSq() < 1e-8) normal.crossVectors(blade, FORWARD);
+    if (normal.lengthSq() < 1e-8) normal.set(1, 0, 0);
+
+    return { point, normal: normal.clone().normalize() };
+  }
+  return null;
+};
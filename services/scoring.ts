@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CutQuality, Judgement, COLORS } from '../types';
+import { MIN_SWING_SPEED, FULL_SWING_SPEED, TIMING_WINDOW, BASE_NOTE_SCORE } from '../constants';
+
+// Being on the beat matters most; a committed, on-arrow swing earns the rest
+const TIMING_WEIGHT = 0.5;
+const SPEED_WEIGHT = 0.25;
+const ALIGNMENT_WEIGHT = 0.25;
+
+const JUDGEMENT_THRESHOLDS: [Judgement, number][] = [
+  ['PERFECT', 0.85],
+  ['GREAT', 0.6],
+  ['GOOD', 0]
+];
+
+export const JUDGEMENT_COLORS: Record<Judgement, string> = {
+  PERFECT: COLORS.perfect,
+  GREAT: COLORS.great,
+  GOOD: COLORS.good
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const gradeCut = (timingError: number, speed: number, alignment: number): CutQuality => {
+  const timingScore = 1 - clamp01(Math.abs(timingError) / TIMING_WINDOW);
+  const speedScore = clamp01((speed - MIN_SWING_SPEED) / (FULL_SWING_SPEED - MIN_SWING_SPEED));
+  const alignmentScore = clamp01(alignment);
+
+  const accuracy = timingScore * TIMING_WEIGHT + speedScore * SPEED_WEIGHT + alignmentScore * ALIGNMENT_WEIGHT;
+  const judgement = JUDGEMENT_THRESHOLDS.find(([, min]) => accuracy >= min)![0];
+
+  return { timingError, speed, alignment, accuracy, judgement };
+};
+
+// Points before the combo multiplier; even a scrappy correct cut is worth 40%
+export const getCutPoints = (cut?: CutQuality): number => {
+  if (!cut) return BASE_NOTE_SCORE;
+  return Math.round(BASE_NOTE_SCORE * (0.4 + 0.6 * cut.accuracy));
+};
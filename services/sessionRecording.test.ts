@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect } from 'vitest';
+import { SessionRecording } from '../types';
+import { BUILTIN_CURRICULUM, RECORDING_VERSION, generateDemoChart } from '../constants';
+import { NoteEvent, simulateRecording } from './gameEngine';
+import { createRecording, addRecordedFrame, parseRecording, serializeRecording } from './sessionRecording';
+
+const SONG_DURATION = 60;
+const FRAME_RATE = 30;
+
+// Both hands sweep the whole view on different rhythms, so they cut some blocks and miss others
+const makeRecording = (overrides: Partial<SessionRecording> = {}): SessionRecording => {
+  const questions = BUILTIN_CURRICULUM.items.slice(0, 8);
+  const recording = createRecording({
+    trackId: 'test-track',
+    bpm: 120,
+    beatOffset: 0,
+    songDuration: SONG_DURATION,
+    directional: false,
+    directionTolerance: 60,
+    difficulty: 'ADAPTIVE',
+    layoutSeed: 1234,
+    questions,
+    chart: generateDemoChart(questions, { bpm: 120, duration: SONG_DURATION }),
+    ...overrides
+  });
+  for (let frame = 0; frame <= SONG_DURATION * FRAME_RATE; frame++) {
+    const t = frame / FRAME_RATE;
+    addRecordedFrame(recording, t, {
+      left: { x: 0.5 + 0.4 * Math.sin(t * 5.1), y: 0.5 + 0.35 * Math.sin(t * 7.3) },
+      right: { x: 0.5 + 0.4 * Math.cos(t * 4.3), y: 0.5 + 0.35 * Math.sin(t * 9.7 + 1) }
+    });
+  }
+  return recording;
+};
+
+// Where and when each block was, and what became of it
+const summarize = (events: NoteEvent[]) =>
+  events.map(({ type, goodCut, note }) => [type, note.id, note.time, note.lineIndex, note.lineLayer, note.type, goodCut]);
+
+// A saved recording as read back from its file
+const roundTrip = (recording: SessionRecording): unknown => JSON.parse(serializeRecording(recording));
+
+describe('parseRecording', () => {
+  it('reads back a saved recording unchanged', () => {
+    const recording = makeRecording();
+    const { recording: parsed, errors } = parseRecording(roundTrip(recording));
+    expect(errors).toEqual([]);
+    expect(parsed).toEqual(recording);
+  });
+
+  it('rejects files that are not recordings, or are from a newer version', () => {
+    expect(parseRecording([]).errors).toEqual(['The file must contain a session recording object.']);
+    expect(parseRecording({ ...makeRecording(), format: 'something-else' }).errors[0]).toMatch(/"format" must be/);
+    expect(parseRecording({ ...makeRecording(), version: RECORDING_VERSION + 1 }).errors[0]).toMatch(/only understands up to version/);
+  });
+
+  it('names every bad setting instead of replaying with it', () => {
+    const data = {
+      ...makeRecording(),
+      bpm: 0,
+      difficulty: 'IMPOSSIBLE',
+      tracking: 'toString',
+      layoutSeed: -1,
+      frames: [{ t: 0, r: [0.5] }]
+    };
+    const { recording, errors } = parseRecording(data);
+    expect(recording).toBeNull();
+    expect(errors).toEqual([
+      expect.stringMatching(/^"bpm"/),
+      expect.stringMatching(/^"difficulty"/),
+      expect.stringMatching(/^"tracking"/),
+      expect.stringMatching(/^"layoutSeed"/),
+      expect.stringMatching(/^"frames"/)
+    ]);
+  });
+
+  it('points at the notes that are out of place', () => {
+    const recording = makeRecording();
+    const chart = recording.chart.map(note => ({ ...note }));
+    chart[1] = { ...chart[1], lineIndex: 7 };
+    chart[2] = { ...chart[2], kind: 'WALL' };
+    [chart[3], chart[4]] = [{ ...chart[4], time: chart[3].time + 10 }, chart[4]];
+
+    const { errors } = parseRecording({ ...recording, chart });
+    expect(errors).toContainEqual(expect.stringMatching(/^Note 2: "lineIndex"/));
+    expect(errors).toContainEqual(expect.stringMatching(/^Note 3: "dodge"/));
+    expect(errors).toContain('"chart" must list its notes in time order.');
+  });
+});
+
+describe('simulateRecording', () => {
+  it('replays an adaptive run the same way every time', () => {
+    const recording = makeRecording();
+    const first = simulateRecording(recording);
+    const second = simulateRecording(recording);
+
+    expect(first.events.some(e => e.type === 'hit')).toBe(true);
+    expect(summarize(second.events)).toEqual(summarize(first.events));
+    expect(second.score).toEqual(first.score);
+  });
+
+  it('plays a recording saved to a file the same as the run it was made from', () => {
+    const recording = makeRecording();
+    const { recording: loaded } = parseRecording(roundTrip(recording));
+    const original = simulateRecording(recording);
+    const replayed = simulateRecording(loaded!);
+
+    expect(summarize(replayed.events)).toEqual(summarize(original.events));
+    expect(replayed.score).toEqual(original.score);
+    expect(replayed.endTime).toBe(original.endTime);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Record a run's hand tracking against the song clock, and read it back for replay.
+// Only the index finger tips (and, with walls on, the head) are kept: they are all the gameplay ever looks at.
+
+import { CutDirection, DifficultyPreset, HandTips, HandType, HeadPoint, NoteData, NoteKind, RecordedFrame, SessionRecording, WallDodge } from '../types';
+import {
+  RECORDING_FORMAT, RECORDING_VERSION, LANE_X_POSITIONS, LAYER_Y_POSITIONS, MIN_DIRECTION_TOLERANCE, MAX_DIRECTION_TOLERANCE, TRACKING_PRESETS
+} from '../constants';
+
+export interface RecordingParseResult {
+  recording: SessionRecording | null;
+  errors: string[];
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// The chart as generated: play-time flags (hit, missed, cut...) stripped
+export const snapshotChart = (chart: NoteData[]): NoteData[] =>
+  chart.map(({
+    id, time, lineIndex, lineLayer, type, cutDirection, text, isCorrect, instruction, questionId, speed, distractorRank, kind, dodge, sequenceIndex, sequenceLength
+  }) => ({
+    id, time, lineIndex, lineLayer, type, cutDirection, text, isCorrect, instruction, questionId, speed, distractorRank, kind, dodge, sequenceIndex, sequenceLength
+  }));
+
+export const createRecording = (meta: Omit<SessionRecording, 'format' | 'version' | 'recordedAt' | 'frames'>): SessionRecording => ({
+  format: RECORDING_FORMAT,
+  version: RECORDING_VERSION,
+  recordedAt: Date.now(),
+  ...meta,
+  chart: snapshotChart(meta.chart),
+  frames: []
+});
+
+// `head` undefined: the pose model didn't look this frame
+export const addRecordedFrame = (recording: SessionRecording, time: number, tips: HandTips, head?: HeadPoint | null) => {
+  const frame: RecordedFrame = { t: round(time) };
+  if (tips.left) frame.l = [round(tips.left.x), round(tips.left.y)];
+  if (tips.right) frame.r = [round(tips.right.x), round(tips.right.y)];
+  if (head !== undefined) frame.h = head ? [round(head.x), round(head.y)] : null;
+  recording.frames.push(frame);
+};
+
+export const getFrameTips = (frame: RecordedFrame): HandTips => ({
+  left: frame.l ? { x: frame.l[0], y: frame.l[1] } : null,
+  right: frame.r ? { x: frame.r[0], y: frame.r[1] } : null
+});
+
+export const getFrameHead = (frame: RecordedFrame): HeadPoint | null | undefined =>
+  frame.h === undefined ? undefined : frame.h && { x: frame.h[0], y: frame.h[1] };
+
+const DIFFICULTIES: DifficultyPreset[] = ['EASY', 'NORMAL', 'HARD', 'ADAPTIVE'];
+const NOTE_KINDS: NoteKind[] = ['BLOCK', 'BOMB', 'WALL'];
+const WALL_DODGES: WallDodge[] = ['LEAN_LEFT', 'LEAN_RIGHT', 'DUCK'];
+const HANDS: HandType[] = ['left', 'right'];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isPoint = (value: unknown): boolean =>
+  Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  (options as readonly unknown[]).includes(value);
+
+const isQuestion = (value: unknown): boolean =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.instruction === 'string' && typeof value.correct === 'string';
+
+const isFrame = (value: unknown): boolean =>
+  isRecord(value) && isFiniteNumber(value.t) &&
+  (value.l === undefined || isPoint(value.l)) &&
+  (value.r === undefined || isPoint(value.r)) &&
+  (value.h === undefined || value.h === null || isPoint(value.h));
+
+const parseCalibration = (raw: unknown, errors: string[]) => {
+  if (!isRecord(raw)) {
+    errors.push(`"calibration" must be an object when given.`);
+    return;
+  }
+  if (!isFiniteNumber(raw.xRange) || raw.xRange <= 0 || !isFiniteNumber(raw.yRange) || raw.yRange <= 0) {
+    errors.push(`"calibration" must have a positive "xRange" and "yRange".`);
+  }
+  if (!isFiniteNumber(raw.xOffset) || !isFiniteNumber(raw.yOffset)) {
+    errors.push(`"calibration" must have numeric "xOffset" and "yOffset".`);
+  }
+  if (typeof raw.mirrored !== 'boolean') {
+    errors.push(`"calibration.mirrored" must be true or false.`);
+  }
+  if (!isOneOf(HANDS, raw.dominantHand)) {
+    errors.push(`"calibration.dominantHand" must be "left" or "right".`);
+  }
+};
+
+const parseNote = (raw: unknown, index: number, errors: string[]) => {
+  const where = `Note ${index + 1}`;
+  if (!isRecord(raw)) {
+    errors.push(`${where}: must be an object.`);
+    return;
+  }
+
+  const noteErrors: string[] = [];
+  if (typeof raw.id !== 'string' || typeof raw.questionId !== 'string') {
+    noteErrors.push(`"id" and "questionId" must be strings.`);
+  }
+  if (!isFiniteNumber(raw.time) || raw.time < 0) {
+    noteErrors.push(`"time" must be a number of seconds.`);
+  }
+  if (!isIntegerInRange(raw.lineIndex, 0, LANE_X_POSITIONS.length - 1)) {
+    noteErrors.push(`"lineIndex" must be a lane from 0 to ${LANE_X_POSITIONS.length - 1}.`);
+  }
+  if (!isIntegerInRange(raw.lineLayer, 0, LAYER_Y_POSITIONS.length - 1)) {
+    noteErrors.push(`"lineLayer" must be a layer from 0 to ${LAYER_Y_POSITIONS.length - 1}.`);
+  }
+  if (!isOneOf(HANDS, raw.type)) {
+    noteErrors.push(`"type" must be "left" or "right".`);
+  }
+  if (!isIntegerInRange(raw.cutDirection, CutDirection.UP, CutDirection.ANY)) {
+    noteErrors.push(`"cutDirection" must be a direction from ${CutDirection.UP} to ${CutDirection.ANY}.`);
+  }
+  if (typeof raw.text !== 'string' || typeof raw.instruction !== 'string') {
+    noteErrors.push(`"text" and "instruction" must be strings.`);
+  }
+  if (typeof raw.isCorrect !== 'boolean') {
+    noteErrors.push(`"isCorrect" must be true or false.`);
+  }
+  if (raw.speed !== undefined && (!isFiniteNumber(raw.speed) || raw.speed <= 0)) {
+    noteErrors.push(`"speed" must be a positive number when given.`);
+  }
+  if (raw.distractorRank !== undefined && !isIntegerInRange(raw.distractorRank, 1, 3)) {
+    noteErrors.push(`"distractorRank" must be 1, 2 or 3 when given.`);
+  }
+  if (raw.kind !== undefined && !isOneOf(NOTE_KINDS, raw.kind)) {
+    noteErrors.push(`"kind" must be one of ${NOTE_KINDS.join(', ')} when given.`);
+  }
+  if (raw.kind === 'WALL' ? !isOneOf(WALL_DODGES, raw.dodge) : raw.dodge !== undefined) {
+    noteErrors.push(`"dodge" must be one of ${WALL_DODGES.join(', ')} on walls, and only on walls.`);
+  }
+  if (raw.sequenceIndex !== undefined || raw.sequenceLength !== undefined) {
+    if (!isIntegerInRange(raw.sequenceLength, 2, Infinity) || !isIntegerInRange(raw.sequenceIndex, 0, raw.sequenceLength - 1)) {
+      noteErrors.push(`"sequenceIndex" must count from 0 up to "sequenceLength", which must be at least 2.`);
+    }
+  }
+
+  noteErrors.forEach(e => errors.push(`${where}: ${e}`));
+};
+
+export const parseRecording = (raw: unknown): RecordingParseResult => {
+  if (!isRecord(raw)) {
+    return { recording: null, errors: ["The file must contain a session recording object."] };
+  }
+
+  const data = raw;
+  const errors: string[] = [];
+
+  if (data.format !== RECORDING_FORMAT) {
+    errors.push(`"format" must be "${RECORDING_FORMAT}".`);
+  } else if (typeof data.version !== 'number' || data.version > RECORDING_VERSION) {
+    errors.push(`This recording uses version ${data.version}, but this app only understands up to version ${RECORDING_VERSION}.`);
+  }
+  if (typeof data.trackId !== 'string') {
+    errors.push(`"trackId" must be a string.`);
+  }
+  if (typeof data.bpm !== 'number' || data.bpm <= 0) {
+    errors.push(`"bpm" must be a positive number.`);
+  }
+  if (!isFiniteNumber(data.beatOffset)) {
+    errors.push(`"beatOffset" must be a number of seconds.`);
+  }
+  if (data.songDuration !== undefined && (!isFiniteNumber(data.songDuration) || data.songDuration <= 0)) {
+    errors.push(`"songDuration" must be a positive number of seconds when given.`);
+  }
+  if (typeof data.directional !== 'boolean') {
+    errors.push(`"directional" must be true or false.`);
+  }
+  if (!isFiniteNumber(data.directionTolerance) || data.directionTolerance < MIN_DIRECTION_TOLERANCE || data.directionTolerance > MAX_DIRECTION_TOLERANCE) {
+    errors.push(`"directionTolerance" must be between ${MIN_DIRECTION_TOLERANCE} and ${MAX_DIRECTION_TOLERANCE} degrees.`);
+  }
+  if (!isOneOf(DIFFICULTIES, data.difficulty)) {
+    errors.push(`"difficulty" must be one of ${DIFFICULTIES.join(', ')}.`);
+  }
+  if (data.calibration !== undefined) {
+    parseCalibration(data.calibration, errors);
+  }
+  if (data.tracking !== undefined && !isOneOf(Object.keys(TRACKING_PRESETS), data.tracking)) {
+    errors.push(`"tracking" must be one of ${Object.keys(TRACKING_PRESETS).join(', ')} when given.`);
+  }
+  if (data.layoutSeed !== undefined && !isIntegerInRange(data.layoutSeed, 0, 4294967295)) {
+    errors.push(`"layoutSeed" must be a whole number from 0 to 4294967295 when given.`);
+  }
+  if (!Array.isArray(data.questions) || !data.questions.every(isQuestion)) {
+    errors.push(`"questions" must be a list of questions, each with an "id", "instruction" and "correct" answer.`);
+  }
+  if (!Array.isArray(data.frames) || !data.frames.every(isFrame)) {
+    errors.push(`"frames" must be a list of timed samples.`);
+  }
+
+  if (!Array.isArray(data.chart) || data.chart.length === 0) {
+    errors.push(`"chart" must be a non-empty list of notes.`);
+  } else {
+    data.chart.forEach((note: unknown, index: number) => parseNote(note, index, errors));
+    // Blocks spawn in chart order, so a shuffled chart would hold later ones back
+    const times = data.chart.map((note: unknown) => (isRecord(note) && isFiniteNumber(note.time) ? note.time : NaN));
+    if (times.some((time, i) => i > 0 && time < times[i - 1])) {
+      errors.push(`"chart" must list its notes in time order.`);
+    }
+  }
+
+  if (errors.length > 0) return { recording: null, errors };
+  return { recording: data as unknown as SessionRecording, errors: [] };
+};
+
+export const loadRecordingFile = async (file: File): Promise<RecordingParseResult> => {
+  try {
+    return parseRecording(JSON.parse(await file.text()));
+  } catch (e: any) {
+    return { recording: null, errors: [`"${file.name}" is not a readable recording: ${e.message}`] };
+  }
+};
+
+// No indentation: recordings hold thousands of frames
+export const serializeRecording = (recording: SessionRecording): string =>
+  JSON.stringify(recording);
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// SM-2 scheduling for curriculum questions, plus the picker that decides
+// which questions make it into the next lesson.
+
+import { QuestionResult, QuestionSet, ReviewItem } from '../types';
+import { getResultCredit } from './lessonResults';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_QUALITY = 3;
+
+// Map a run result onto SM-2's 0-5 recall quality
+export const getRecallQuality = (result: QuestionResult): number => {
+  if (result.outcome === 'missed') return 0;
+  if (result.outcome === 'wrong') return result.answer === result.correct ? 2 : 1;
+  // Part of a sentence in order: nearly there, but not yet remembered
+  if (result.outcome === 'partial') return getResultCredit(result) >= 0.5 ? 2 : 1;
+  switch (result.judgement) {
+    case 'PERFECT': return 5;
+    case 'GREAT': return 4;
+    default: return 3;
+  }
+};
+
+export const reviewItem = (questionId: string, previous: ReviewItem | undefined, quality: number, now: number): ReviewItem => {
+  const item: ReviewItem = previous ? { ...previous } : {
+    questionId,
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    due: now,
+    lapses: 0,
+    reviews: 0,
+    lastReviewed: now
+  };
+
+  if (quality < PASSING_QUALITY) {
+    // Forgotten: start the ladder again and bring it straight back next lesson
+    item.repetitions = 0;
+    item.interval = 0;
+    item.lapses += 1;
+  } else {
+    item.repetitions += 1;
+    if (item.repetitions === 1) item.interval = 1;
+    else if (item.repetitions === 2) item.interval = 6;
+    else item.interval = Math.round(item.interval * item.ease);
+  }
+
+  item.ease = Math.max(MIN_EASE, item.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  item.due = now + item.interval * DAY_MS;
+  item.reviews += 1;
+  item.lastReviewed = now;
+  return item;
+};
+
+// Questions the student keeps getting wrong (and long-overdue ones) are more likely to be picked
+const getReviewWeight = (item: ReviewItem, now: number): number => {
+  const overdueDays = Math.max(0, (now - item.due) / DAY_MS);
+  const difficulty = (INITIAL_EASE - item.ease) * 2;
+  return 1 + item.lapses * 1.5 + Math.min(overdueDays, 10) * 0.3 + Math.max(0, difficulty);
+};
+
+// Weighted sampling without replacement (Efraimidis–Spirakis)
+const weightedOrder = <T>(entries: { value: T, weight: number }[]): T[] =>
+  entries
+    .map(e => ({ value: e.value, key: -Math.log(Math.random() || Number.MIN_VALUE) / e.weight }))
+    .sort((a, b) => a.key - b.key)
+    .map(e => e.value);
+
+// Due reviews first, then questions the student has never seen, then the ones coming up soonest
+export const selectReviewQuestions = (
+  questions: QuestionSet[],
+  items: Record<string, ReviewItem>,
+  count: number,
+  now: number = Date.now()
+): QuestionSet[] => {
+  const due: { value: QuestionSet, weight: number }[] = [];
+  const unseen: QuestionSet[] = [];
+  const upcoming: ReviewItem[] = [];
+  const byId = new Map<string, QuestionSet>();
+
+  questions.forEach(q => {
+    const item = q.id ? items[q.id] : undefined;
+    if (!item) {
+      unseen.push(q);
+      return;
+    }
+    byId.set(item.questionId, q);
+    if (item.due <= now) due.push({ value: q, weight: getReviewWeight(item, now) });
+    else upcoming.push(item);
+  });
+
+  upcoming.sort((a, b) => a.due - b.due);
+
+  return [
+    ...weightedOrder(due),
+    ...unseen,
+    ...upcoming.map(item => byId.get(item.questionId)!)
+  ].slice(0, count);
+};
+
+export const countDueQuestions = (questions: QuestionSet[], items: Record<string, ReviewItem>, now: number = Date.now()): number =>
+  questions.filter(q => q.id && items[q.id] && items[q.id].due <= now).length;
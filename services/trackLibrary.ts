@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// User music library: audio files and their beat analysis, kept in IndexedDB
+// so a classroom's songs survive reloads without any server.
+
+import { MusicTrack } from '../types';
+import { analyseAudioFile } from './beatDetection';
+
+const DB_NAME = 'conjugation-dojo';
+const DB_VERSION = 1;
+const TRACK_STORE = 'tracks';
+
+interface StoredTrack {
+  id: string;
+  name: string;
+  blob: Blob;
+  bpm: number;
+  offset: number;
+  duration: number;
+  beats: number[];
+  addedAt: number;
+}
+
+// Object URLs handed out for stored blobs, so they can be revoked on delete
+const objectUrls = new Map<string, string>();
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TRACK_STORE)) {
+        db.createObjectStore(TRACK_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(TRACK_STORE, mode);
+      const request = operation(tx.objectStore(TRACK_STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const toMusicTrack = (stored: StoredTrack): MusicTrack => {
+  let url = objectUrls.get(stored.id);
+  if (!url) {
+    url = URL.createObjectURL(stored.blob);
+    objectUrls.set(stored.id, url);
+  }
+  return {
+    id: stored.id,
+    source: 'user',
+    name: stored.name,
+    url,
+    bpm: stored.bpm,
+    offset: stored.offset,
+    duration: stored.duration,
+    beats: stored.beats
+  };
+};
+
+export const listUserTracks = async (): Promise<MusicTrack[]> => {
+  const stored = await runTransaction<StoredTrack[]>('readonly', store => store.getAll());
+  return stored.sort((a, b) => a.addedAt - b.addedAt).map(toMusicTrack);
+};
+
+// Analyse a dropped-in audio file and keep it in the library
+export const addUserTrack = async (file: File): Promise<MusicTrack> => {
+  const analysis = await analyseAudioFile(file);
+  const stored: StoredTrack = {
+    id: `user-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    blob: file,
+    addedAt: Date.now(),
+    ...analysis
+  };
+  await runTransaction('readwrite', store => store.put(stored));
+  return toMusicTrack(stored);
+};
+
+export const removeUserTrack = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+  const url = objectUrls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  }
+};
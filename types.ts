@@ -18,6 +18,8 @@ declare global {
       planeGeometry: any;
       cylinderGeometry: any;
       capsuleGeometry: any;
+      coneGeometry: any;
+      sphereGeometry: any;
       ringGeometry: any;
       torusGeometry: any;
       meshStandardMaterial: any;
@@ -40,6 +42,8 @@ declare module "react" {
       planeGeometry: any;
       cylinderGeometry: any;
       capsuleGeometry: any;
+      coneGeometry: any;
+      sphereGeometry: any;
       ringGeometry: any;
       torusGeometry: any;
       meshStandardMaterial: any;
@@ -53,7 +57,12 @@ declare module "react" {
 export enum GameStatus {
   LOADING = 'LOADING',
   IDLE = 'IDLE',
+  EDITOR = 'EDITOR',
+  PREVIEW = 'PREVIEW', // Single question flying down the track from the editor
+  DASHBOARD = 'DASHBOARD', // Teacher view of every student on this device
+  CALIBRATION = 'CALIBRATION', // Fitting the camera view to this student's reach
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED', // Song and blocks frozen mid-lesson
   GAME_OVER = 'GAME_OVER',
   VICTORY = 'VICTORY'
 }
@@ -69,6 +78,31 @@ export enum CutDirection {
   ANY = 4
 }
 
+export type DifficultyPreset = 'EASY' | 'NORMAL' | 'HARD' | 'ADAPTIVE';
+
+export interface DifficultyParams {
+  noteSpeed: number;      // World units/s
+  distractors: number;    // Wrong answers per question, 1-3
+  spread: number;         // 0 = central lanes & low layer, 1 = every lane and layer
+  questionGap: number;    // Seconds between questions (rounded to bars)
+  directionLevel: number; // 0 = vertical arrows on answers only, 2 = all four directions everywhere
+}
+
+export type Judgement = 'PERFECT' | 'GREAT' | 'GOOD';
+
+// How cleanly a block was cut, graded when the collision fires
+export interface CutQuality {
+  timingError: number; // Seconds; positive = late
+  speed: number;       // Hand speed in world units/s
+  alignment: number;   // Cosine to the arrow direction (1 for dot notes)
+  accuracy: number;    // 0-1 weighted blend of the above
+  judgement: Judgement;
+}
+
+// Answer blocks are cut; bombs (misspelt words) must not be touched; walls must be dodged
+export type NoteKind = 'BLOCK' | 'BOMB' | 'WALL';
+export type WallDodge = 'LEAN_LEFT' | 'LEAN_RIGHT' | 'DUCK';
+
 export interface NoteData {
   id: string;
   time: number;     // Time in seconds when it should reach the player
@@ -81,10 +115,201 @@ export interface NoteData {
   text: string;       // The word displayed on the block
   isCorrect: boolean; // Is this the correct answer?
   instruction: string; // The question (e.g., "Past tense of: RUN")
+  questionId: string;  // QuestionSet this block belongs to
 
   hit?: boolean;
   missed?: boolean;
+  speed?: number;          // Track speed for this block (world units/s)
+  distractorRank?: number; // 1-3 for distractors; adaptive difficulty drops the higher ranks
+  skipped?: boolean;       // Dropped at spawn time by adaptive difficulty
+  spawnTime?: number; // Time the block appeared on the track
   hitTime?: number; // Time when hit occurred
+  goodCut?: boolean;
+  cut?: CutQuality;
+  slice?: NoteSlice; // Where and along which plane the blade went through
+  kind?: NoteKind;    // Absent: an answer block
+  dodge?: WallDodge;  // Walls only: how to get out of the way
+  sequenceIndex?: number;  // Sentence building: which word of the answer this block's wave asks for...
+  sequenceLength?: number; // ...out of how many
+}
+
+// A blade cut through a block, in world space
+export interface NoteSlice {
+  point: THREE.Vector3;  // Where the blade first struck
+  normal: THREE.Vector3; // Of the cut plane, which holds the blade and its direction of travel
+  velocity: THREE.Vector3; // Of the hand, which sends the halves flying
+}
+
+export interface MusicTrack {
+  id: string;
+  name: string;
+  url: string;
+  fallbackUrl?: string; // Played when `url` can't be loaded, e.g. self-hosted files that weren't downloaded
+  bpm: number;
+  offset?: number;   // Seconds from the start of the file to the first downbeat
+  source: 'builtin' | 'user';
+  duration?: number; // Seconds, known for analysed tracks
+  beats?: number[];  // Detected beat times, in seconds
+}
+
+// A single fill-in-the-blank question as authored by a teacher.
+export interface QuestionSet {
+  id?: string;
+  instruction: string;   // Sentence with a ___ blank
+  correct: string;
+  distractors: string[];
+  tags?: string[];       // Grammar categories, e.g. "past-simple"
+  level?: string;        // e.g. CEFR "A1"
+  locale?: string;       // BCP 47 tag, e.g. "en-GB"
+  misspellings?: string[]; // Common misspellings of the answer, sent as bombs
+  sequence?: string[];     // Words of `correct` in order, slashed one at a time in sentence building
+}
+
+// Versioned, importable lesson bundle
+export interface CurriculumPack {
+  format: string;
+  version: number;
+  id: string;
+  title: string;
+  locale: string;
+  description?: string;
+  items: QuestionSet[];
+}
+
+export type QuestionOutcome = 'correct' | 'wrong' | 'partial' | 'missed';
+
+// How far a sentence got before its word order broke
+export interface SentenceProgress {
+  words: number;   // In the whole answer
+  inOrder: number; // Slashed in the right order before the first mistake
+  broken: boolean; // A wrong word was slashed or the right one flew past
+}
+
+// What happened to one question during a run
+export interface QuestionResult {
+  questionId: string;
+  instruction: string;
+  correct: string;
+  tags: string[];
+  outcome: QuestionOutcome;
+  answer: string | null;   // First word the student slashed
+  wrongAnswers: string[];
+  reactionTime?: number;   // Seconds from the blocks appearing to the first slash
+  judgement?: Judgement;
+  sentence?: SentenceProgress; // Sentence building only
+}
+
+// Spaced-repetition state for one question (SM-2)
+export interface ReviewItem {
+  questionId: string;
+  ease: number;        // SM-2 easiness factor, >= 1.3
+  interval: number;    // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  due: number;         // Epoch ms
+  lapses: number;      // Times the student got it wrong
+  reviews: number;
+  lastReviewed: number;
+}
+
+// Summary of one finished lesson, kept in a student's history
+export interface LessonRecord {
+  completedAt: number;
+  curriculumId: string;
+  curriculumTitle: string;
+  score: number;
+  correct: number;
+  answered: number;  // Questions the student reached
+  total: number;     // Questions in the lesson
+  maxCombo: number;
+  victory: boolean;
+  tags: Record<string, { correct: number; total: number }>;
+}
+
+// How a student's camera-space fingertip maps onto the play area
+export interface HandCalibration {
+  xRange: number;   // World units across the full camera width
+  yRange: number;   // World units across the full camera height
+  xOffset: number;  // World X of the camera centre
+  yOffset: number;  // World Y of the camera centre
+  mirrored: boolean; // Selfie view (the usual webcam); off flips left/right for cameras that mirror themselves
+  dominantHand: HandType; // Gets a hand whose left/right the tracker isn't sure about
+}
+
+// Hand-tracking filter presets (see TRACKING_PRESETS)
+export type TrackingPreset = 'STEADY' | 'BALANCED' | 'RESPONSIVE';
+
+export interface HandFilterSettings {
+  minCutoff: number;       // One-Euro: Hz; lower = smoother when the hand is slow
+  beta: number;            // One-Euro: how fast the cutoff rises with speed (less lag on swings)
+  derivativeCutoff: number; // One-Euro: Hz, smoothing of the speed estimate itself
+  velocityWindow: number;  // Seconds of filtered positions fitted for swing velocity
+  dropoutBridge: number;   // Seconds a lost hand keeps coasting before it disappears
+  handednessFrames: number; // Consecutive frames a left/right label must disagree before a hand swaps
+}
+
+// Self-hosted font files for 3D text (undefined: the text library's CDN default)
+export interface UiFonts {
+  regular?: string;
+  bold?: string;
+}
+
+// Hand detection performance, for the stats overlay
+export interface DetectionStats {
+  inferenceMs: number;  // Recent average time per detection
+  detectionFps: number; // Detection results per second
+  inWorker: boolean;    // False when the browser can't run detection off the main thread
+  delegate: 'GPU' | 'CPU' | null;
+}
+
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  items: Record<string, ReviewItem>;
+  history: LessonRecord[];
+  calibration?: HandCalibration; // Missing until the student has calibrated
+}
+
+// All students sharing this device
+export interface ProfileStore {
+  activeProfileId: string;
+  profiles: LearnerProfile[];
+}
+
+// Normalized (0..1, camera space) index finger tips, as reported by hand tracking
+export interface HandTips {
+  left: { x: number; y: number } | null;
+  right: { x: number; y: number } | null;
+}
+
+// One hand-tracking sample, stamped with the song time it was taken at.
+// Tips are stored as [x, y] pairs to keep recordings small.
+export interface RecordedFrame {
+  t: number;
+  l?: [number, number];
+  r?: [number, number];
+  h?: [number, number] | null; // Head, on frames it was looked for (null: not found)
+}
+
+// A whole run: everything needed to play it back without a camera
+export interface SessionRecording {
+  format: string;
+  version: number;
+  recordedAt: number;
+  studentName?: string;
+  trackId: string;
+  bpm: number;
+  beatOffset: number;
+  songDuration?: number; // Seconds; adaptive spacing stops scheduling questions at the end of the song
+  directional: boolean;
+  directionTolerance: number;
+  difficulty: DifficultyPreset;
+  calibration?: HandCalibration; // Recorded tips are raw camera positions, so replays need the same mapping
+  tracking?: TrackingPreset;      // ...and the same filtering
+  layoutSeed?: number;            // Adaptive runs lay out each question as it spawns, from this seed
+  questions: QuestionSet[];
+  chart: NoteData[]; // As generated, before any note was hit
+  frames: RecordedFrame[];
 }
 
 export interface HandPositions {
@@ -92,6 +317,20 @@ export interface HandPositions {
   right: THREE.Vector3 | null;
   leftVelocity: THREE.Vector3;
   rightVelocity: THREE.Vector3;
+  head?: TrackedHead; // Camera only, while walls are on
+}
+
+// Head position in the camera frame (0..1), like a fingertip
+export interface HeadPoint {
+  x: number;
+  y: number;
+}
+
+// Where the student's head is, and where it usually is when they stand normally
+export interface TrackedHead {
+  position: THREE.Vector3 | null;
+  standing: THREE.Vector3 | null; // Follows slowly, so a quick lean or duck stands out against it
+  lastTimestamp: number;          // ms
 }
 
 export const COLORS = {
@@ -99,5 +338,8 @@ export const COLORS = {
   right: '#3b82f6', // Blue-ish
   track: '#111111',
   correct: '#22c55e',
-  wrong: '#ef4444'
+  wrong: '#ef4444',
+  perfect: '#facc15',
+  great: '#4ade80',
+  good: '#60a5fa'
 };
@@ -1,6 +1,34 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+
+// Serve MediaPipe's WASM fileset from the installed package (and copy it into builds),
+// so hand tracking doesn't depend on a CDN that school networks may block.
+const MEDIAPIPE_WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+const MEDIAPIPE_WASM_URL = '/mediapipe/wasm/';
+
+const mediapipeWasm = (): Plugin => ({
+  name: 'mediapipe-wasm',
+  configureServer(server) {
+    server.middlewares.use(MEDIAPIPE_WASM_URL, (req, res, next) => {
+      const file = path.join(MEDIAPIPE_WASM_DIR, path.basename((req.url || '').split('?')[0]));
+      if (!fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+      res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+      fs.createReadStream(file).pipe(res);
+    });
+  },
+  generateBundle() {
+    fs.readdirSync(MEDIAPIPE_WASM_DIR).forEach(name => {
+      this.emitFile({
+        type: 'asset',
+        fileName: MEDIAPIPE_WASM_URL.slice(1) + name,
+        source: fs.readFileSync(path.join(MEDIAPIPE_WASM_DIR, name))
+      });
+    });
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +37,13 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm()],
+      // Styles and every library are bundled into the build, so the app loads without reaching a CDN
+      css: {
+        postcss: {
+          plugins: [tailwindcss({ content: ['./index.html', './App.tsx', './components/**/*.tsx', './hooks/**/*.ts', './services/**/*.ts'] })]
+        }
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)